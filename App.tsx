@@ -1,8 +1,78 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { loadPdfDocument, renderPageToImage, RenderedPage } from './utils/pdfHelpers';
-import { colorizeImage } from './services/localImageService';
+import {
+  getPageTextLines,
+  loadPdfDocument,
+  loadPdfDocumentFromData,
+  renderPageToBitmap,
+  renderPageToBlob,
+  renderPageToImage,
+  renderPageToImageData,
+  RenderedPage,
+  TextLine,
+} from './utils/pdfHelpers';
+import { useObjectUrl } from './utils/useObjectUrl';
+import { cleanupImage, colorizeImage, colorizeBitmap } from './services/localImageService';
+import { colorizePdfVector } from './services/vectorColorizeService';
+import {
+  ColorizeParams,
+  ColorRegion,
+  ColorStop,
+  getInkColor,
+  getPaperColor,
+  RegionPoint,
+  resolvePalette,
+  rgbToHex,
+} from './services/colorizeCore';
+import { getWorkerPoolSize } from './services/workerPool';
+import { buildRasterPdf, estimateRasterPdfSize, RasterPdfPage } from './services/pdfExport';
+import { buildImageArchive, DEFAULT_IMAGE_ARCHIVE, ImageArchiveOptions } from './services/imageArchive';
+import { readPdfMetadata } from './services/pdfMetadata';
+import { mergePdfs } from './services/pdfMerge';
+import { colorizePdfFile, createQueuedFile, QueuedFile, QueueSettings } from './services/fileQueue';
+import { WCAG_AA_CONTRAST } from './services/contrast';
+import { suggestBoldness } from './services/autoTone';
+import { CVD_LABELS, CvdType, findConfusablePairs, NamedColor } from './services/colorVision';
+import { deletePreset, listPresets, parsePresetFile, savePresets, serializePresets, ThemePreset } from './services/themePresets';
+import { DEFAULT_PAGE_ENCODING, PageEncodingOptions } from './services/pageEncoding';
+import { browserCanvasBackend } from './services/canvasBackend';
+import { hasPageOverrides, PageOverrides, patchPageOverrides } from './services/pageOverrides';
+import {
+  BatchCheckpoint,
+  BatchFailure,
+  clearBatchCheckpoint,
+  loadBatchCheckpoint,
+  saveBatchCheckpoint,
+} from './services/batchCheckpoint';
+import {
+  createProject,
+  deleteProject,
+  findProjectByFileKey,
+  getFileKey,
+  listProjects,
+  loadProject,
+  ProjectSummary,
+  saveProjectPages,
+  saveProjectSettings,
+} from './services/projectStore';
+import { applyPagePlanToPdf, createPagePlan, isBlankPage, isIdentityPlan, PagePlanEntry } from './services/pagePlan';
+import { resolveTextRules, TextRule } from './services/textRules';
+import { hasScanCleanup, NO_SCAN_CLEANUP, ScanCleanupOptions } from './services/scanCleanup';
+import { AdaptiveThresholdOptions, DEFAULT_ADAPTIVE_THRESHOLD, MAX_WINDOW_PERCENT, MIN_WINDOW_PERCENT, ToneMode } from './services/adaptiveThreshold';
 import { Button } from './components/Button';
-import jsPDF from 'jspdf';
+import { PaletteEditor, paletteToCss } from './components/PaletteEditor';
+import { RegionList, RegionOverlay, RegionTool } from './components/RegionEditor';
+import { TextRulesPanel } from './components/TextRulesPanel';
+import { ExportOptionsPanel } from './components/ExportOptionsPanel';
+import { ImageExportPanel } from './components/ImageExportPanel';
+import { PageStrip } from './components/PageStrip';
+import { RecentProject, RecentProjects } from './components/RecentProjects';
+import { FileQueue } from './components/FileQueue';
+import { PageOverridesPanel } from './components/PageOverridesPanel';
+import { PresetsPanel } from './components/PresetsPanel';
+import { ContrastBadge, ContrastPanel } from './components/ContrastPanel';
+import { CvdFilterDefs, cvdFilterCss, CvdSelect, CvdWarnings } from './components/ColorVisionControls';
+import { DEFAULT_VIEW, ViewTransform, ZoomPane } from './components/ZoomPane';
+import { CompareSlider } from './components/CompareSlider';
 import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 // Define icons as components or simple elements
@@ -17,9 +87,35 @@ const LayersIcon = () => <i className="fas fa-layer-group"></i>;
 const ImageIcon = () => <i className="far fa-image"></i>;
 const SlidersIcon = () => <i className="fas fa-sliders-h"></i>;
 
-type ColorTheme = 'black' | 'green' | 'blue' | 'red' | 'purple' | 'orange' | 'custom';
+type ColorTheme = 'black' | 'green' | 'blue' | 'red' | 'purple' | 'orange' | 'dark' | 'sepia' | 'navy-duotone' | 'brand-tritone' | 'custom' | 'palette';
 
-const THEMES: { id: ColorTheme; name: string; hex: string }[] = [
+// raster: every page is rendered to an image and recolored pixel by pixel.
+// vector: the PDF's own color operators are rewritten, keeping text and paths.
+type ColorMode = 'raster' | 'vector';
+
+// A theme is either a single ink color (blended to the paper color) or a palette of gradient-map stops.
+// For palette themes, hex is the darkest stop and is what ink-only features use.
+// background, when set, switches the paper color along with the theme.
+interface ThemeDefinition {
+  id: ColorTheme;
+  name: string;
+  hex: string;
+  background?: string;
+  palette?: ColorStop[];
+}
+
+const DEFAULT_PAPER_HEX = '#ffffff';
+
+// Thumbnails only need to be recognizable; blank detection renders a little larger so page numbers and specks stay visible.
+const THUMBNAIL_SCALE = 0.2;
+// Live preview waits for settings to settle, then shows a draft at this scale before the full render
+const LIVE_PREVIEW_DELAY = 300;
+const LIVE_PREVIEW_SCALE = 1;
+// Render scale for the histogram behind the suggested boldness; the tone distribution barely changes with scale
+const AUTO_BOLDNESS_SCALE = 0.5;
+const BLANK_DETECTION_SCALE = 0.5;
+
+const THEMES: ThemeDefinition[] = [
   { 
     id: 'black', 
     name: 'Sharp Black', 
@@ -50,14 +146,123 @@ const THEMES: { id: ColorTheme; name: string; hex: string }[] = [
     name: 'Burnt Orange', 
     hex: '#F97316' 
   },
+  {
+    id: 'dark',
+    name: 'Dark Mode',
+    hex: '#E5E7EB',
+    background: '#111827'
+  },
+  {
+    id: 'sepia',
+    name: 'Aged Paper',
+    hex: '#4B3621',
+    background: '#F3E9D2'
+  },
+  {
+    id: 'navy-duotone',
+    name: 'Navy Duotone',
+    hex: '#1E3A8A',
+    palette: [
+      { color: '#1E3A8A', position: 0 },
+      { color: '#FDF6E3', position: 1 },
+    ]
+  },
+  {
+    id: 'brand-tritone',
+    name: 'Navy / Amber Tritone',
+    hex: '#1E3A8A',
+    palette: [
+      { color: '#1E3A8A', position: 0 },
+      { color: '#F59E0B', position: 0.5 },
+      { color: '#FDF6E3', position: 1 },
+    ]
+  },
+];
+
+// New regions cycle through these so neighbouring areas are easy to tell apart
+const REGION_COLORS = ['#EF4444', '#10B981', '#3B82F6', '#F59E0B', '#8B5CF6'];
+
+const newRegionId = () => Math.random().toString(36).slice(2, 10);
+
+const DEFAULT_CUSTOM_PALETTE: ColorStop[] = [
+  { color: '#1E3A8A', position: 0 },
+  { color: '#6366F1', position: 0.5 },
+  { color: '#FFFBEB', position: 1 },
 ];
 
 interface ColorizedPageData {
-  imageUrl: string;
+  image: Blob; // PNG
   width: number;
   height: number;
+  pageWidth: number; // Source page size in points, kept by the export
+  pageHeight: number;
+  paperHex: string; // Fills the export margins around this page
+  inkHex: string; // Painted by the 1-bit mask export
+  settingsKey?: string; // Settings the page was made with (see getPageSettingsKey), so live preview can skip it
+}
+
+// CSS swatch for a theme: gradient for palettes, ink-on-paper split for themes with their own background.
+const themeSwatchCss = (theme: ThemeDefinition): string => {
+  if (theme.palette) return paletteToCss(theme.palette);
+  if (theme.background) return `linear-gradient(135deg, ${theme.hex} 50%, ${theme.background} 50%)`;
+  return theme.hex;
+};
+
+// Everything a project saves besides its pages; batch checkpoints keep a copy so a resumed run matches the pages already done
+interface ProjectSettings {
+  selectedTheme: ColorTheme;
+  customColorHex: string;
+  customPalette: ColorStop[];
+  paperHex: string;
+  boldness: number;
+  toneMode: ToneMode;
+  adaptiveOptions: AdaptiveThresholdOptions;
+  scanCleanup: ScanCleanupOptions;
+  preserveColorPhotos: boolean;
+  resolutionScale: number;
+  colorMode: ColorMode;
+  marginPercent: number;
+  textRules: TextRule[];
+  pageRegions: Map<number, ColorRegion[]>;
+  pageOverrides: Map<number, PageOverrides>;
+  pagePlan: PagePlanEntry[];
+  exportOptions: PageEncodingOptions;
+  enforceContrast: boolean;
+  autoBoldness: boolean;
+  smoothEdges: boolean;
+  imageExport: ImageArchiveOptions;
+}
+
+type StoredBatch = BatchCheckpoint<ProjectSettings>;
+
+// Shared between a running batch and the Pause/Resume/Cancel buttons
+interface BatchControl {
+  paused: boolean;
+  cancelled: boolean;
+  // Lanes waiting for Resume
+  waiters: (() => void)[];
+}
+
+const MARGIN_PRESETS = [0, 5, 10, 15];
+
+interface VectorResult {
+  key: string;
+  bytes: Uint8Array;
+  doc: PDFDocumentProxy;
 }
 
+// Dropped files sometimes come without a MIME type
+const isPdfFile = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+const triggerDownload = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
 export default function App() {
   const [file, setFile] = useState<File | null>(null);
   const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
@@ -67,68 +272,702 @@ export default function App() {
   // Stores the rendered original image for the current page
   const [originalPageImage, setOriginalPageImage] = useState<RenderedPage | null>(null);
   
-  // Stores colorized versions: Key is page number, Value is object with dataUrl and dimensions
+  // Stores colorized versions: Key is page number, Value is object with the PNG Blob and dimensions
   const [colorizedPages, setColorizedPages] = useState<Map<number, ColorizedPageData>>(new Map());
+
+  // Saved project of the open document; settings and pages are written back as they change
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
+  // Pages as last written to the project, to save only what changed
+  const savedPagesRef = useRef<Map<number, ColorizedPageData>>(new Map());
+  // Bumped whenever another document is loaded or the app is reset, so a project created for an earlier one is not adopted
+  const documentSessionRef = useRef(0);
+
+  // Further files colorized with the same settings, each downloadable or merged into one PDF
+  const [fileQueue, setFileQueue] = useState<QueuedFile[]>([]);
+  const [isQueueRunning, setIsQueueRunning] = useState(false);
+  const queueAbortRef = useRef<AbortController | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+
+  // Page plan: which pages are colorized in a batch and exported, in order
+  const [pagePlan, setPagePlan] = useState<PagePlanEntry[]>([]);
+  const [pageThumbnails, setPageThumbnails] = useState<Map<number, string>>(new Map());
+  const [isDetectingBlanks, setIsDetectingBlanks] = useState<boolean>(false);
   
   // UI State
   const [selectedTheme, setSelectedTheme] = useState<ColorTheme>('black');
   const [customColorHex, setCustomColorHex] = useState<string>('#6366f1'); // Default to Indigo
+  const [customPalette, setCustomPalette] = useState<ColorStop[]>(DEFAULT_CUSTOM_PALETTE);
+  const [paperHex, setPaperHex] = useState<string>(DEFAULT_PAPER_HEX);
+
+  // Per-page color regions (raster mode), keyed by page number
+  const [pageRegions, setPageRegions] = useState<Map<number, ColorRegion[]>>(new Map());
+  const [regionTool, setRegionTool] = useState<RegionTool>('none');
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+
+  // Document-wide rules resolved against each page's text layer
+  const [textRules, setTextRules] = useState<TextRule[]>([]);
+  const [currentRuleRegions, setCurrentRuleRegions] = useState<ColorRegion[]>([]);
+
+  // Color photo detection: document-wide default; pages can override it like any other page setting
+  const [preserveColorPhotos, setPreserveColorPhotos] = useState<boolean>(false);
+
+  // Preview-only color vision deficiency simulation of the colorized page
+  const [cvdSimulation, setCvdSimulation] = useState<CvdType | null>(null);
+
+  // Push ink below WCAG AA contrast to the nearest compliant shade while colorizing
+  const [enforceContrast, setEnforceContrast] = useState<boolean>(false);
+
+  // Tone curve from each page's histogram instead of the boldness slider (raster mode);
+  // the slider then shows what the current page got
+  const [autoBoldness, setAutoBoldness] = useState<boolean>(false);
+  const [suggestedBoldness, setSuggestedBoldness] = useState<number | null>(null);
+
+  // Anti-alias ink outlines so high boldness doesn't leave stair-stepped glyphs (raster mode)
+  const [smoothEdges, setSmoothEdges] = useState<boolean>(false);
+
+  // Per-page settings that batch runs and regeneration honor (raster mode)
+  const [pageOverrides, setPageOverrides] = useState<Map<number, PageOverrides>>(new Map());
+
+  // Scan cleanup and its preview of the current page
+  const [scanCleanup, setScanCleanup] = useState<ScanCleanupOptions>(NO_SCAN_CLEANUP);
+  const [cleanedPage, setCleanedPage] = useState<Blob | null>(null);
+  const cleanedPageUrl = useObjectUrl(cleanedPage);
+  const colorizedPageUrl = useObjectUrl(colorizedPages.get(currentPage)?.image);
+
+  // Live preview: the current page is recolored as settings change, first as a low-resolution draft
+  const [isLivePreview, setIsLivePreview] = useState<boolean>(true);
+  const [liveDraft, setLiveDraft] = useState<{ key: string; image: Blob } | null>(null);
+  const [isLiveUpdating, setIsLiveUpdating] = useState<boolean>(false);
+  // Zoom and pan shared by the original and result panes
+  const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
+  const [isSplitView, setIsSplitView] = useState<boolean>(false);
+  const [showCleanedOriginal, setShowCleanedOriginal] = useState<boolean>(true);
   
   // Resolution & Processing State
   const [resolutionScale, setResolutionScale] = useState<number>(3.0); // Default High
   const [boldness, setBoldness] = useState<number>(60); // 0-100, default 60 for deep color
+  const [colorMode, setColorMode] = useState<ColorMode>('raster');
+  const [toneMode, setToneMode] = useState<ToneMode>('global');
+  const [adaptiveOptions, setAdaptiveOptions] = useState<AdaptiveThresholdOptions>(DEFAULT_ADAPTIVE_THRESHOLD);
   const [showSettings, setShowSettings] = useState<boolean>(true);
 
   // Margin State: Percentage based
   const [marginPercent, setMarginPercent] = useState<number>(0);
   const [isCustomMargin, setIsCustomMargin] = useState<boolean>(false);
+  const [presets, setPresets] = useState<ThemePreset[]>([]);
+
+  // Export compression
+  const [exportOptions, setExportOptions] = useState<PageEncodingOptions>(DEFAULT_PAGE_ENCODING);
+  // Page images as a ZIP or multi-page TIFF, as an alternative to the PDF download
+  const [imageExport, setImageExport] = useState<ImageArchiveOptions>(DEFAULT_IMAGE_ARCHIVE);
+  const [imageExportProgress, setImageExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const [estimatedExportBytes, setEstimatedExportBytes] = useState<number | null>(null);
+  const [isEstimatingExport, setIsEstimatingExport] = useState<boolean>(false);
 
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [batchProgress, setBatchProgress] = useState<{current: number, total: number} | null>(null);
+  const [isBatchPaused, setIsBatchPaused] = useState<boolean>(false);
+  const [batchFailures, setBatchFailures] = useState<BatchFailure[]>([]);
+  // Unfinished run found for the loaded file, offered for resuming
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<StoredBatch | null>(null);
+  // Earlier project for the file just opened, offered instead of being reopened unasked
+  const [savedProjectOffer, setSavedProjectOffer] = useState<ProjectSummary | null>(null);
+  const [resumePages, setResumePages] = useState<number[] | null>(null);
   const [isRenderingPdf, setIsRenderingPdf] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const batchControlRef = useRef<BatchControl | null>(null);
+
+  // Last vector-mode output, reused while color, boldness and margin stay the same
+  const vectorResultRef = useRef<VectorResult | null>(null);
+
+  // Text layer per page; extracting it means parsing the page, so do it once per document
+  const textLinesCacheRef = useRef<Map<number, TextLine[]>>(new Map());
+
   // Helper to get the active hex color
   const getActiveHexColor = () => {
     if (selectedTheme === 'custom') return customColorHex;
+    if (selectedTheme === 'palette') return [...customPalette].sort((a, b) => a.position - b.position)[0].color;
     return THEMES.find(t => t.id === selectedTheme)?.hex || '#000000';
   };
 
+  // Helper to get the active gradient map, if the theme defines one
+  const getActivePalette = (): ColorStop[] | undefined => {
+    if (selectedTheme === 'palette') return customPalette;
+    return THEMES.find(t => t.id === selectedTheme)?.palette;
+  };
+
+  // Document settings with the page's overrides applied; without a page number, the document settings alone
+  const getPageSettings = (pageNum?: number): Required<PageOverrides> => ({
+    color: getActiveHexColor(),
+    boldness,
+    marginPercent,
+    toneMode,
+    preserveColorPhotos,
+    ...(pageNum ? pageOverrides.get(pageNum) : undefined),
+  });
+
+  const getColorizeParams = (pageNum?: number): ColorizeParams => {
+    const settings = getPageSettings(pageNum);
+    const hasColorOverride = pageNum !== undefined && pageOverrides.get(pageNum)?.color !== undefined;
+    return {
+      targetColorHex: settings.color,
+      boldness: settings.boldness,
+      backgroundHex: paperHex,
+      // A per-page ink color replaces the theme, palette included
+      palette: hasColorOverride ? undefined : getActivePalette(),
+      regions: pageNum ? pageRegions.get(pageNum) : undefined,
+      preserveColorPhotos: settings.preserveColorPhotos,
+      cleanup: hasScanCleanup(scanCleanup) ? scanCleanup : undefined,
+      adaptive: settings.toneMode === 'adaptive' ? adaptiveOptions : undefined,
+      minContrast: enforceContrast ? WCAG_AA_CONTRAST : undefined,
+      // A page's own boldness wins over the automatic one
+      autoBoldness: autoBoldness && !(pageNum && pageOverrides.get(pageNum)?.boldness !== undefined),
+      smoothEdges,
+    };
+  };
+
+  const updatePageOverrides = (pageNum: number, patch: PageOverrides) => {
+    setPageOverrides(prev => patchPageOverrides(prev, pageNum, patch));
+  };
+
+  const clearPageOverrides = (pageNum: number) => {
+    setPageOverrides(prev => {
+      const next = new Map(prev);
+      next.delete(pageNum);
+      return next;
+    });
+  };
+
+  const getProjectSettings = (): ProjectSettings => ({
+    selectedTheme,
+    customColorHex,
+    customPalette,
+    paperHex,
+    boldness,
+    toneMode,
+    adaptiveOptions,
+    scanCleanup,
+    preserveColorPhotos,
+    resolutionScale,
+    colorMode,
+    marginPercent,
+    textRules,
+    pageRegions,
+    pageOverrides,
+    pagePlan,
+    exportOptions,
+    enforceContrast,
+    autoBoldness,
+    smoothEdges,
+    imageExport,
+  });
+
+  const applyProjectSettings = (settings: ProjectSettings) => {
+    setSelectedTheme(settings.selectedTheme);
+    setCustomColorHex(settings.customColorHex);
+    setCustomPalette(settings.customPalette);
+    setPaperHex(settings.paperHex);
+    setBoldness(settings.boldness);
+    setToneMode(settings.toneMode);
+    setAdaptiveOptions(settings.adaptiveOptions);
+    setScanCleanup(settings.scanCleanup);
+    setPreserveColorPhotos(settings.preserveColorPhotos);
+    setResolutionScale(settings.resolutionScale);
+    setColorMode(settings.colorMode);
+    setMarginPercent(settings.marginPercent);
+    setIsCustomMargin(!MARGIN_PRESETS.includes(settings.marginPercent));
+    setTextRules(settings.textRules);
+    setPageRegions(settings.pageRegions);
+    setPageOverrides(settings.pageOverrides);
+    setPagePlan(settings.pagePlan);
+    setExportOptions(settings.exportOptions ?? DEFAULT_PAGE_ENCODING);
+    setEnforceContrast(settings.enforceContrast ?? false);
+    setAutoBoldness(settings.autoBoldness ?? false);
+    setSmoothEdges(settings.smoothEdges ?? false);
+    setImageExport(settings.imageExport ?? DEFAULT_IMAGE_ARCHIVE);
+    clearVectorResult();
+  };
+
+  // Text-rule masks for a page; hand-drawn regions are layered on top of these
+  const getTextRuleRegions = async (doc: PDFDocumentProxy, pageNum: number): Promise<ColorRegion[]> => {
+    if (!textRules.some(rule => rule.enabled)) return [];
+
+    let lines = textLinesCacheRef.current.get(pageNum);
+    if (!lines) {
+      lines = await getPageTextLines(doc, pageNum);
+      textLinesCacheRef.current.set(pageNum, lines);
+    }
+    return resolveTextRules(lines, textRules);
+  };
+
+  const getPageRegions = async (doc: PDFDocumentProxy, pageNum: number): Promise<ColorRegion[]> => [
+    ...(await getTextRuleRegions(doc, pageNum)),
+    ...(pageRegions.get(pageNum) || []),
+  ];
+
+  const currentRegions = pageRegions.get(currentPage) || [];
+
+  const setRegionsForPage = (pageNum: number, regions: ColorRegion[]) => {
+    setPageRegions(prev => {
+      const next = new Map(prev);
+      if (regions.length > 0) next.set(pageNum, regions);
+      else next.delete(pageNum);
+      return next;
+    });
+  };
+
+  const handleCreateRegion = (shape: ColorRegion['shape'], points: RegionPoint[]) => {
+    const region: ColorRegion = {
+      id: newRegionId(),
+      shape,
+      points,
+      color: REGION_COLORS[currentRegions.length % REGION_COLORS.length],
+      boldness,
+    };
+    setRegionsForPage(currentPage, [...currentRegions, region]);
+    setSelectedRegionId(region.id);
+  };
+
+  // Copies this page's regions onto other pages, replacing whatever those pages had
+  const handleApplyRegionsToPages = (pages: number[] | 'all') => {
+    const targets = pages === 'all' ? Array.from({ length: numPages }, (_, i) => i + 1) : pages;
+    setPageRegions(prev => {
+      const next = new Map(prev);
+      targets.filter(p => p !== currentPage).forEach(p => {
+        next.set(p, currentRegions.map(region => ({ ...region, id: newRegionId() })));
+      });
+      return next;
+    });
+  };
+
+  const selectTheme = (theme: ThemeDefinition) => {
+    setSelectedTheme(theme.id);
+    if (theme.background) setPaperHex(theme.background);
+  };
+
+  // The settings a preset captures, under the given name
+  const getCurrentPreset = (name: string): ThemePreset => ({
+    name,
+    inkHex: getActiveHexColor().toLowerCase(),
+    palette: getActivePalette()?.map(stop => ({ color: stop.color.toLowerCase(), position: stop.position })),
+    paperHex: paperHex.toLowerCase(),
+    boldness,
+    marginPercent,
+    resolutionScale,
+    colorMode,
+  });
+
+  const applyPreset = (preset: ThemePreset) => {
+    if (preset.palette) {
+      setCustomPalette(preset.palette);
+      setSelectedTheme('palette');
+    } else {
+      // Presets made from a built-in color select it again rather than a custom copy
+      const builtIn = THEMES.find(theme => !theme.palette && theme.hex.toLowerCase() === preset.inkHex);
+      if (builtIn) {
+        setSelectedTheme(builtIn.id);
+      } else {
+        setCustomColorHex(preset.inkHex);
+        setSelectedTheme('custom');
+      }
+    }
+    setPaperHex(preset.paperHex);
+    setBoldness(preset.boldness);
+    setMarginPercent(preset.marginPercent);
+    setIsCustomMargin(!MARGIN_PRESETS.includes(preset.marginPercent));
+    setResolutionScale(preset.resolutionScale);
+    setColorMode(preset.colorMode);
+  };
+
+  // The preset the current settings match, if any
+  const currentPresetKey = JSON.stringify({ ...getCurrentPreset(''), name: undefined });
+  const activePreset = presets.find(preset => JSON.stringify({ ...preset, name: undefined }) === currentPresetKey)?.name ?? null;
+
+  const refreshPresets = () =>
+    listPresets()
+      .then(setPresets)
+      .catch(err => console.error("Failed to load presets:", err));
+
+  const handleSavePreset = async (name: string) => {
+    try {
+      await savePresets([getCurrentPreset(name)]);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to save the preset.");
+    }
+    refreshPresets();
+  };
+
+  const handleDeletePreset = async (name: string) => {
+    try {
+      await deletePreset(name);
+    } catch (err) {
+      console.error("Failed to delete preset:", err);
+    }
+    refreshPresets();
+  };
+
+  const handleExportPresets = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: 'application/json' }));
+    triggerDownload(url, 'chromapdf-presets.json');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // Imported presets replace saved ones with the same name
+  const handleImportPresets = async (presetFile: File) => {
+    try {
+      await savePresets(parsePresetFile(await presetFile.text()));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(`Could not import presets. ${err instanceof Error ? err.message : ''}`.trim());
+    }
+    refreshPresets();
+  };
+
+  useEffect(() => {
+    refreshPresets();
+  }, []);
+
+  // Ink and paper as chosen, before contrast enforcement; the contrast checks compare these
+  const getChosenInkAndPaper = () => {
+    const params = { ...getColorizeParams(), minContrast: undefined };
+    return { inkHex: rgbToHex(getInkColor(params)), paperHex: rgbToHex(getPaperColor(params)) };
+  };
+
+  // The document's ink after contrast enforcement, as pages without an override are colorized; the separation plate prints it
+  const getDocumentInkHex = () => rgbToHex(getInkColor(getColorizeParams()));
+
+  // Swaps the ink (e.g. for a compliant shade or a spot ink's color): the custom color, or the darkest stop of a palette theme
+  const replaceInkColor = (hex: string) => {
+    const palette = getActivePalette();
+    if (palette) {
+      const darkest = [...palette].sort((a, b) => a.position - b.position)[0];
+      setCustomPalette(palette.map(stop => (stop === darkest ? { ...stop, color: hex } : stop)));
+      setSelectedTheme('palette');
+    } else {
+      setCustomColorHex(hex);
+      setSelectedTheme('custom');
+    }
+  };
+
+  // Everything that decides how a raster page comes out
+  const getPageSettingsKey = (pageNum: number) => JSON.stringify([resolutionScale, getColorizeParams(pageNum), textRules]);
+
+  // Colors used on the current page that readers have to tell apart: the palette (or ink and paper),
+  // the page's regions and the text rules
+  const getCvdCheckColors = (): NamedColor[] => {
+    const params = getColorizeParams(currentPage);
+    const stops = resolvePalette(params);
+    return [
+      ...stops.map((stop, index) => ({
+        label: index === 0 ? 'Ink' : index === stops.length - 1 ? 'Paper' : `Palette stop ${index + 1}`,
+        hex: stop.color,
+      })),
+      ...(params.regions ?? []).map((region, index) => ({ label: `Region ${index + 1}`, hex: region.color })),
+      ...textRules.filter(rule => rule.enabled).map((rule, index) => ({ label: `Text rule ${index + 1}`, hex: rule.color })),
+    ];
+  };
+
   const getActiveThemeName = () => {
     if (selectedTheme === 'custom') return 'Custom Color';
+    if (selectedTheme === 'palette') return 'Custom Palette';
     return THEMES.find(t => t.id === selectedTheme)?.name || 'Unknown';
   };
 
+  const clearVectorResult = () => {
+    vectorResultRef.current?.doc.destroy();
+    vectorResultRef.current = null;
+  };
+
+  // Builds (or reuses) the vector-colorized copy of the source PDF
+  const getVectorResult = async (params: ColorizeParams): Promise<VectorResult> => {
+    if (!file) throw new Error("No PDF loaded");
+
+    const key = JSON.stringify([params, marginPercent]);
+    if (vectorResultRef.current?.key === key) return vectorResultRef.current;
+
+    const bytes = await colorizePdfVector(await file.arrayBuffer(), { ...params, marginPercent });
+    const doc = await loadPdfDocumentFromData(bytes);
+    clearVectorResult();
+    vectorResultRef.current = { key, bytes, doc };
+    return vectorResultRef.current;
+  };
+
+  // Resets everything tied to the previous document for a freshly loaded one
+  const resetDocumentState = (doc: PDFDocumentProxy) => {
+    documentSessionRef.current++;
+    setPdfDoc(doc);
+    setNumPages(doc.numPages);
+    setCurrentPage(1);
+    setColorizedPages(new Map());
+    savedPagesRef.current = new Map();
+    setPagePlan(createPagePlan(doc.numPages));
+    setPageThumbnails(new Map());
+    setBatchProgress(null);
+    setPageRegions(new Map());
+    setSelectedRegionId(null);
+    setPageOverrides(new Map());
+    textLinesCacheRef.current = new Map();
+    clearVectorResult();
+    setBatchFailures([]);
+    setPendingCheckpoint(null);
+    setSavedProjectOffer(null);
+    setView(DEFAULT_VIEW);
+  };
+
+  // Reopens a saved project: source PDF, settings, colorized pages and any unfinished batch
+  const openProject = async (id: string) => {
+    try {
+      setIsRenderingPdf(true);
+      setError(null);
+
+      const loaded = await loadProject<ProjectSettings, ColorizedPageData>(id);
+      if (!loaded) {
+        setError("This project could not be found. It may have been removed by the browser.");
+        return;
+      }
+
+      const doc = await loadPdfDocument(loaded.file);
+      setFile(loaded.file);
+      resetDocumentState(doc);
+      if (loaded.project.settings) applyProjectSettings(loaded.project.settings);
+      setColorizedPages(loaded.pages);
+      savedPagesRef.current = loaded.pages;
+      setProjectId(id);
+
+      loadBatchCheckpoint<ProjectSettings>(id)
+        .then(setPendingCheckpoint)
+        .catch(err => console.error("Failed to read saved batch progress:", err));
+
+      await renderCurrentPage(doc, 1, loaded.project.settings?.resolutionScale ?? resolutionScale);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to open the saved project.");
+    } finally {
+      setIsRenderingPdf(false);
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      console.error("Failed to delete project:", err);
+    }
+    setRecentProjects(prev => prev.filter(project => project.id !== id));
+  };
+
+  // Saves the open file as a new project. Saving is best effort; without IndexedDB the app works as before, just without recovery
+  const startProject = (uploadedFile: File, doc: PDFDocumentProxy) => {
+    const session = documentSessionRef.current;
+    renderPageToBlob(doc, 1, THUMBNAIL_SCALE)
+      .then(thumbnail => createProject(uploadedFile, doc.numPages, thumbnail.blob))
+      .then(project => { if (documentSessionRef.current === session) setProjectId(project.id); })
+      .catch(err => console.error("Failed to save project:", err));
+  };
+
+  // Turns down the saved project for the file just opened and keeps working on it as a new one
+  const handleStartNewProject = () => {
+    setSavedProjectOffer(null);
+    if (file && pdfDoc) startProject(file, pdfDoc);
+  };
+
+  const openFile = async (uploadedFile: File) => {
+    // The file opens fresh; a saved project for the same file is offered above the preview,
+    // and a new project is only created once that offer is turned down
+    const existing = await findProjectByFileKey(getFileKey(uploadedFile)).catch(() => null);
+
+    try {
+      setFile(uploadedFile);
+      setIsRenderingPdf(true);
+      setError(null);
+      
+      const doc = await loadPdfDocument(uploadedFile);
+      resetDocumentState(doc);
+      setProjectId(null);
+      setSavedProjectOffer(existing);
+      if (!existing) startProject(uploadedFile, doc);
+      
+      // Initial render of page 1
+      await renderCurrentPage(doc, 1, resolutionScale);
+      
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load PDF. Please ensure it is a valid PDF file.");
+    } finally {
+      setIsRenderingPdf(false);
+    }
+  };
+
+  // Picked or dropped files. With nothing open the first file opens for tuning and several files also
+  // fill the queue; with a document open they are added to the queue.
+  const handleIncomingFiles = async (files: File[]) => {
+    const pdfs = files.filter(isPdfFile);
+    if (pdfs.length === 0) {
+      if (files.length > 0) setError("Only PDF files can be added.");
+      return;
+    }
+
+    if (file) {
+      addToFileQueue(pdfs);
+      return;
+    }
+    if (pdfs.length > 1) setFileQueue(pdfs.map(createQueuedFile));
+    await openFile(pdfs[0]);
+  };
+
   // Handle File Upload
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const uploadedFile = event.target.files?.[0];
-    if (uploadedFile && uploadedFile.type === 'application/pdf') {
-      try {
-        setFile(uploadedFile);
-        setIsRenderingPdf(true);
-        setError(null);
-        
-        const doc = await loadPdfDocument(uploadedFile);
-        setPdfDoc(doc);
-        setNumPages(doc.numPages);
-        setCurrentPage(1);
-        setColorizedPages(new Map());
-        setBatchProgress(null);
-        
-        // Initial render of page 1
-        await renderCurrentPage(doc, 1, resolutionScale);
-        
-      } catch (err) {
-        console.error(err);
-        setError("Failed to load PDF. Please ensure it is a valid PDF file.");
-      } finally {
-        setIsRenderingPdf(false);
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    handleIncomingFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const addToFileQueue = (files: File[]) => {
+    setFileQueue(prev => [...prev, ...files.map(createQueuedFile)]);
+  };
+
+  const updateQueuedFile = (id: string, patch: Partial<QueuedFile>) => {
+    setFileQueue(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  // Colorizes queued files one after another with the current document settings
+  const runFileQueue = async () => {
+    const settings: QueueSettings = {
+      params: getColorizeParams(),
+      textRules,
+      colorMode,
+      scale: resolutionScale,
+      marginPercent,
+      encoding: exportOptions,
+    };
+    const controller = new AbortController();
+    queueAbortRef.current = controller;
+    setIsQueueRunning(true);
+    setError(null);
+
+    try {
+      for (const item of fileQueue.filter(entry => entry.status === 'waiting' || entry.status === 'failed')) {
+        if (controller.signal.aborted) break;
+        updateQueuedFile(item.id, { status: 'processing', progress: undefined, error: undefined });
+        try {
+          const { result, outline } = await colorizePdfFile(
+            item.file,
+            settings,
+            (current, total) => updateQueuedFile(item.id, { progress: { current, total } }),
+            controller.signal
+          );
+          updateQueuedFile(item.id, { status: 'done', result, outline, progress: undefined });
+        } catch (err) {
+          if (controller.signal.aborted) {
+            updateQueuedFile(item.id, { status: 'waiting', progress: undefined });
+            break;
+          }
+          console.error(`Failed to colorize ${item.file.name}:`, err);
+          updateQueuedFile(item.id, {
+            status: 'failed',
+            progress: undefined,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
       }
+    } finally {
+      queueAbortRef.current = null;
+      setIsQueueRunning(false);
     }
   };
 
+  const stopFileQueue = () => {
+    queueAbortRef.current?.abort();
+  };
+
+  const downloadQueuedFile = (id: string) => {
+    const item = fileQueue.find(entry => entry.id === id);
+    if (!item?.result) return;
+    const url = URL.createObjectURL(item.result);
+    triggerDownload(url, `chromapdf_${selectedTheme}_${item.file.name}`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  // One PDF of every finished file in queue order, with a bookmark per file
+  const downloadMergedQueue = async () => {
+    const done = fileQueue.filter(item => item.result);
+    if (done.length === 0) return;
+
+    setIsProcessing(true);
+    try {
+      const bytes = await mergePdfs(await Promise.all(done.map(async item => ({
+        title: item.file.name.replace(/\.pdf$/i, ''),
+        bytes: new Uint8Array(await item.result!.arrayBuffer()),
+        outline: item.outline,
+      }))));
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+      triggerDownload(url, `chromapdf_${selectedTheme}_merged.pdf`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to merge the colorized files.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Drag and drop anywhere on the page
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = isQueueRunning ? 'none' : 'copy';
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Only when leaving the window, not when moving between children
+    if (!event.relatedTarget) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    if (isQueueRunning) return;
+    handleIncomingFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // Recent projects for the upload screen
+  useEffect(() => {
+    if (file) return;
+    listProjects()
+      .then(setRecentProjects)
+      .catch(err => console.error("Failed to list saved projects:", err));
+  }, [file]);
+
+  // Save settings shortly after they change
+  useEffect(() => {
+    if (!projectId) return;
+    const timer = setTimeout(() => {
+      saveProjectSettings(projectId, getProjectSettings()).catch(err => console.error("Failed to save project settings:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    projectId, selectedTheme, customColorHex, customPalette, paperHex, boldness, toneMode, adaptiveOptions, scanCleanup,
+    preserveColorPhotos, resolutionScale, colorMode, marginPercent, textRules, pageRegions, pageOverrides, pagePlan, exportOptions,
+    enforceContrast, autoBoldness, smoothEdges, imageExport,
+  ]);
+
+  // Save colorized pages as they are produced; each page is written once per change
+  useEffect(() => {
+    if (!projectId) return;
+    const saved = savedPagesRef.current;
+    const changed = new Map<number, ColorizedPageData>([...colorizedPages].filter(([pageNumber, page]) => saved.get(pageNumber) !== page));
+    const removed = [...saved.keys()].filter(pageNumber => !colorizedPages.has(pageNumber));
+    savedPagesRef.current = colorizedPages;
+    saveProjectPages(projectId, changed, removed).catch(err => console.error("Failed to save colorized pages:", err));
+  }, [projectId, colorizedPages]);
+
   // Helper to render a specific page
   const renderCurrentPage = async (doc: PDFDocumentProxy, pageNum: number, scale: number) => {
     setIsRenderingPdf(true);
@@ -155,6 +994,126 @@ export default function App() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, pdfDoc, resolutionScale]);
 
+  // Thumbnails for the page strip, rendered one at a time in the background
+  useEffect(() => {
+    if (!pdfDoc) return;
+    let cancelled = false;
+    (async () => {
+      for (let i = 1; i <= pdfDoc.numPages && !cancelled; i++) {
+        try {
+          const thumbnail = await renderPageToImage(pdfDoc, i, THUMBNAIL_SCALE);
+          if (!cancelled) setPageThumbnails(prev => new Map(prev).set(i, thumbnail.dataUrl));
+        } catch (err) {
+          console.error(`Failed to render thumbnail for page ${i}:`, err);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [pdfDoc]);
+
+  // Preview the scan cleanup on the current page
+  useEffect(() => {
+    if (!originalPageImage || colorMode !== 'raster' || !hasScanCleanup(scanCleanup)) {
+      setCleanedPage(null);
+      return;
+    }
+    let cancelled = false;
+    cleanupImage(originalPageImage.dataUrl, scanCleanup).then(result => {
+      if (cancelled) return;
+      if (result.error) console.error("Scan cleanup preview failed:", result.error);
+      setCleanedPage(result.blob ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [originalPageImage, scanCleanup, colorMode]);
+
+  // Boldness the histogram analysis picks for the current page, shown on the slider
+  useEffect(() => {
+    if (!pdfDoc || !autoBoldness || colorMode !== 'raster') {
+      setSuggestedBoldness(null);
+      return;
+    }
+    let cancelled = false;
+    renderPageToImageData(pdfDoc, currentPage, AUTO_BOLDNESS_SCALE)
+      .then(image => { if (!cancelled) setSuggestedBoldness(suggestBoldness(image)); })
+      .catch(err => console.error("Failed to analyze page tones:", err));
+    return () => { cancelled = true; };
+  }, [pdfDoc, currentPage, autoBoldness, colorMode]);
+
+  // Show where the text rules land on the current page
+  useEffect(() => {
+    if (!pdfDoc || colorMode !== 'raster') {
+      setCurrentRuleRegions([]);
+      return;
+    }
+    let cancelled = false;
+    getTextRuleRegions(pdfDoc, currentPage)
+      .then(regions => { if (!cancelled) setCurrentRuleRegions(regions); })
+      .catch(err => console.error("Failed to read text layer:", err));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pdfDoc, currentPage, textRules, colorMode]);
+
+  // Live preview of the current page. A cheap draft shows first when the page is rendered
+  // above LIVE_PREVIEW_SCALE; the full-resolution result then replaces the stored page.
+  // The key also names the document and page, so opening a file or turning the page starts a preview
+  // even when the settings are the same; the stored settingsKey decides whether the page is already current.
+  const liveSettingsKey = isLivePreview && colorMode === 'raster' && pdfDoc && !isProcessing ? getPageSettingsKey(currentPage) : null;
+  const liveKey = liveSettingsKey && pdfDoc ? JSON.stringify([pdfDoc.fingerprints[0], currentPage, liveSettingsKey]) : null;
+
+  useEffect(() => {
+    setLiveDraft(null);
+    if (!liveKey || !liveSettingsKey || !pdfDoc || colorizedPages.get(currentPage)?.settingsKey === liveSettingsKey) return;
+    let cancelled = false;
+    const pageNum = currentPage;
+    const pageParams = getColorizeParams(pageNum);
+
+    const colorizeAt = async (scale: number) => {
+      const rendered = await renderPageToBitmap(pdfDoc, pageNum, scale);
+      const result = await colorizeBitmap(rendered.bitmap, { ...pageParams, regions: await getPageRegions(pdfDoc, pageNum) });
+      if (result.error || !result.blob) throw new Error(result.error || "No image was produced.");
+      return { rendered, blob: result.blob };
+    };
+
+    const timer = setTimeout(async () => {
+      setIsLiveUpdating(true);
+      try {
+        if (resolutionScale > LIVE_PREVIEW_SCALE) {
+          const draft = await colorizeAt(LIVE_PREVIEW_SCALE);
+          if (cancelled) return;
+          setLiveDraft({ key: liveKey, image: draft.blob });
+        }
+        const { rendered, blob } = await colorizeAt(resolutionScale);
+        if (cancelled) return;
+        setColorizedPages(prev => new Map(prev).set(pageNum, {
+          image: blob,
+          width: rendered.width,
+          height: rendered.height,
+          pageWidth: rendered.pageWidth,
+          pageHeight: rendered.pageHeight,
+          paperHex: rgbToHex(getPaperColor(pageParams)),
+          inkHex: rgbToHex(getInkColor(pageParams)),
+          settingsKey: liveSettingsKey
+        }));
+        setLiveDraft(null);
+      } catch (err) {
+        console.error("Live preview failed:", err);
+      } finally {
+        if (!cancelled) setIsLiveUpdating(false);
+      }
+    }, LIVE_PREVIEW_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      setIsLiveUpdating(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [liveKey]);
+
+  const liveDraftUrl = useObjectUrl(liveDraft?.image);
+  const originalPreviewUrl = cleanedPageUrl && showCleanedOriginal ? cleanedPageUrl : originalPageImage?.dataUrl;
+  const resultPageUrl = liveDraftUrl ?? colorizedPageUrl;
+
   // Colorization Handler (Single Page)
   const handleColorizeCurrent = async () => {
     if (!originalPageImage) return;
@@ -162,18 +1121,41 @@ export default function App() {
     setIsProcessing(true);
     setError(null);
 
-    const targetHex = getActiveHexColor();
+    const params = getColorizeParams(currentPage);
 
     try {
-      const result = await colorizeImage(originalPageImage.dataUrl, targetHex, boldness);
+      if (colorMode === 'vector') {
+        // The vector copy covers the whole document, so it is built from the page-independent settings.
+        const documentParams = getColorizeParams();
+        const vector = await getVectorResult(documentParams);
+        const rendered = await renderPageToBlob(vector.doc, currentPage, resolutionScale);
+        setColorizedPages(prev => new Map(prev).set(currentPage, {
+          image: rendered.blob,
+          width: rendered.width,
+          height: rendered.height,
+          pageWidth: rendered.pageWidth,
+          pageHeight: rendered.pageHeight,
+          paperHex: rgbToHex(getPaperColor(documentParams)),
+          inkHex: rgbToHex(getInkColor(documentParams))
+        }));
+        return;
+      }
+
+      const regions = pdfDoc ? await getPageRegions(pdfDoc, currentPage) : params.regions;
+      const result = await colorizeImage(originalPageImage.dataUrl, { ...params, regions });
       
       if (result.error) {
         setError(result.error);
-      } else if (result.imageUrl) {
+      } else if (result.blob) {
         setColorizedPages(prev => new Map(prev).set(currentPage, {
-          imageUrl: result.imageUrl!,
+          image: result.blob!,
           width: originalPageImage.width,
-          height: originalPageImage.height
+          height: originalPageImage.height,
+          pageWidth: originalPageImage.pageWidth,
+          pageHeight: originalPageImage.pageHeight,
+          paperHex: rgbToHex(getPaperColor(params)),
+          inkHex: rgbToHex(getInkColor(params)),
+          settingsKey: getPageSettingsKey(currentPage)
         }));
       }
     } catch (err) {
@@ -183,96 +1165,323 @@ export default function App() {
     }
   };
 
-  // Batch Colorization Handler (All Pages)
-  const handleColorizeAll = async () => {
-    if (!pdfDoc) return;
+  // Batch Colorization Handler. Runs the page plan, or the given pages when retrying or resuming.
+  const handleColorizeAll = async (pages: number[] = pagePlan.map(entry => entry.pageNumber)) => {
+    if (!pdfDoc || pages.length === 0) return;
 
     setIsProcessing(true);
-    setBatchProgress({ current: 0, total: numPages });
+    setBatchProgress({ current: 0, total: pages.length });
+    setBatchFailures([]);
+    setPendingCheckpoint(null);
     setError(null);
 
-    const targetHex = getActiveHexColor();
-    const newColorizedMap = new Map(colorizedPages);
+    const control: BatchControl = { paused: false, cancelled: false, waiters: [] };
+    batchControlRef.current = control;
+    setIsBatchPaused(false);
 
-    try {
-      // Loop through all pages
-      for (let i = 1; i <= numPages; i++) {
-        setBatchProgress({ current: i, total: numPages });
-        
-        let pageImageBase64 = '';
-        let width = 0;
-        let height = 0;
-
-        // Note: For batch processing, we always re-render to ensure consistency with current resolutionScale
-        const rendered = await renderPageToImage(pdfDoc, i, resolutionScale); 
-        pageImageBase64 = rendered.dataUrl;
-        width = rendered.width;
-        height = rendered.height;
-
-        const result = await colorizeImage(pageImageBase64, targetHex, boldness);
-
-        if (result.error) {
-           console.error(`Error on page ${i}:`, result.error);
-        } else if (result.imageUrl) {
-           newColorizedMap.set(i, {
-             imageUrl: result.imageUrl,
-             width,
-             height
-           });
-           setColorizedPages(new Map(newColorizedMap));
+    const params = getColorizeParams();
+    const settings = getProjectSettings();
+    const pending = new Set(pages);
+    const failures: BatchFailure[] = [];
+    let nextIndex = 0;
+    let completed = 0;
+
+    // Checkpoint writes must never stop the run; without IndexedDB the batch just cannot be resumed
+    const saveCheckpoint = () => {
+      if (!projectId) return;
+      saveBatchCheckpoint({ projectId, settings, pending: pages.filter(p => pending.has(p)), failures, updatedAt: Date.now() })
+        .catch(err => console.error("Failed to save batch progress:", err));
+    };
+
+    const colorizeRasterPage = async (i: number): Promise<ColorizedPageData> => {
+      // Note: For batch processing, we always re-render to ensure consistency with current resolutionScale
+      const rendered = await renderPageToBitmap(pdfDoc, i, resolutionScale);
+      const { width, height, pageWidth, pageHeight } = rendered;
+
+      // Each page gets its own settings, so tuned pages come out the same as when they were regenerated alone
+      const pageParams = getColorizeParams(i);
+      const result = await colorizeBitmap(rendered.bitmap, {
+        ...pageParams,
+        regions: await getPageRegions(pdfDoc, i),
+      });
+
+      if (result.error || !result.blob) {
+        throw new Error(result.error || "No image was produced.");
+      }
+      return {
+        image: result.blob,
+        width,
+        height,
+        pageWidth,
+        pageHeight,
+        paperHex: rgbToHex(getPaperColor(pageParams)),
+        inkHex: rgbToHex(getInkColor(pageParams)),
+        settingsKey: getPageSettingsKey(i)
+      };
+    };
+
+    // Each lane renders a page, hands its bitmap to the worker pool and picks up the next one,
+    // so several pages are in flight while the main thread stays free for the UI.
+    // Pausing lets pages already in flight finish; a failed page is reported and the run moves on.
+    const runLane = async (colorizePage: (i: number) => Promise<ColorizedPageData>) => {
+      while (nextIndex < pages.length) {
+        while (control.paused && !control.cancelled) {
+          await new Promise<void>(resolve => control.waiters.push(resolve));
         }
+        if (control.cancelled) return;
+
+        const i = pages[nextIndex++];
+        try {
+          const page = await colorizePage(i);
+          setColorizedPages(prev => new Map(prev).set(i, page));
+        } catch (err) {
+          console.error(`Error on page ${i}:`, err);
+          failures.push({ pageNumber: i, reason: err instanceof Error ? err.message : String(err) });
+        }
+
+        pending.delete(i);
+        saveCheckpoint();
+        completed++;
+        setBatchProgress({ current: completed, total: pages.length });
       }
+    };
+
+    try {
+      saveCheckpoint();
+      let colorizePage = colorizeRasterPage;
+      let lanes = Math.min(getWorkerPoolSize(), pages.length);
+
+      if (colorMode === 'vector') {
+        // The whole document is recolored in one pass; lanes only render previews.
+        const vector = await getVectorResult(params);
+        colorizePage = async (i: number) => {
+          const rendered = await renderPageToBlob(vector.doc, i, resolutionScale);
+          return {
+            image: rendered.blob,
+            width: rendered.width,
+            height: rendered.height,
+            pageWidth: rendered.pageWidth,
+            pageHeight: rendered.pageHeight,
+            paperHex: rgbToHex(getPaperColor(params)),
+            inkHex: rgbToHex(getInkColor(params))
+          };
+        };
+        lanes = 1;
+      }
+
+      await Promise.all(Array.from({ length: lanes }, () => runLane(colorizePage)));
+
+      // Finished or cancelled: nothing left to resume
+      if (projectId) await clearBatchCheckpoint(projectId).catch(err => console.error("Failed to clear batch progress:", err));
     } catch (err) {
       setError("Batch processing stopped due to an error.");
       console.error(err);
     } finally {
+      batchControlRef.current = null;
+      setBatchFailures([...failures].sort((a, b) => a.pageNumber - b.pageNumber));
+      setIsBatchPaused(false);
       setIsProcessing(false);
       setBatchProgress(null);
     }
   };
 
-  // Download Handler (Rebuild PDF)
-  const handleDownloadPDF = () => {
-    if (colorizedPages.size === 0) return;
+  // Restores an interrupted run's settings, then queues what is left; its finished pages came back with the project
+  const handleResumeCheckpoint = () => {
+    if (!pendingCheckpoint) return;
+    const { settings, pending, failures, projectId: checkpointProjectId } = pendingCheckpoint;
 
-    try {
-      // Initialize jsPDF
-      const doc = new jsPDF({
-        orientation: 'portrait',
-        unit: 'px',
-        format: 'a4'
-      });
+    applyProjectSettings(settings);
+    setPendingCheckpoint(null);
 
-      const sortedPages = Array.from(colorizedPages.entries()).sort((a, b) => a[0] - b[0]);
-      
-      sortedPages.forEach(([pageNum, data]) => {
-        const { imageUrl, width, height } = data;
+    // Pages that failed last time get another try along with the ones never reached
+    const remaining = [...pending, ...failures.map(failure => failure.pageNumber).filter(p => !pending.includes(p))];
+    if (remaining.length > 0) {
+      setResumePages(remaining);
+    } else {
+      clearBatchCheckpoint(checkpointProjectId).catch(err => console.error("Failed to clear batch progress:", err));
+    }
+  };
 
-        // Calculate margin in pixels based on percentage of width
-        const marginPx = Math.floor(width * (marginPercent / 100));
-        
-        // New page size is original image size + margins on both sides
-        const pageWidth = width + (marginPx * 2);
-        const pageHeight = height + (marginPx * 2);
+  const handleDiscardCheckpoint = () => {
+    if (!pendingCheckpoint) return;
+    clearBatchCheckpoint(pendingCheckpoint.projectId).catch(err => console.error("Failed to clear batch progress:", err));
+    setPendingCheckpoint(null);
+  };
 
-        // Add a new page with the dimensions including margin
-        doc.addPage([pageWidth, pageHeight]);
-        
-        // Add the image to the newly created page, offset by the margin
-        doc.addImage(imageUrl, 'PNG', marginPx, marginPx, width, height);
-      });
+  // Starts a resumed run on the render after its settings were restored, so the run reads them
+  useEffect(() => {
+    if (!resumePages) return;
+    setResumePages(null);
+    handleColorizeAll(resumePages);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resumePages]);
+
+  const pauseBatch = () => {
+    const control = batchControlRef.current;
+    if (!control) return;
+    control.paused = true;
+    setIsBatchPaused(true);
+  };
+
+  const resumeBatch = () => {
+    const control = batchControlRef.current;
+    if (!control) return;
+    control.paused = false;
+    control.waiters.splice(0).forEach(wake => wake());
+    setIsBatchPaused(false);
+  };
 
-      // Remove the default empty page (page 1) created upon initialization
-      const totalPages = doc.getNumberOfPages();
-      if (totalPages > sortedPages.length) {
-        doc.deletePage(1); 
+  const cancelBatch = () => {
+    const control = batchControlRef.current;
+    if (!control) return;
+    control.cancelled = true;
+    control.waiters.splice(0).forEach(wake => wake());
+  };
+
+  // Removes pages with no visible content from the page plan
+  const handleDropBlankPages = async () => {
+    if (!pdfDoc) return;
+
+    setIsDetectingBlanks(true);
+    try {
+      const blank = new Set<number>();
+      for (const { pageNumber } of pagePlan) {
+        if (isBlankPage(await renderPageToImageData(pdfDoc, pageNumber, BLANK_DETECTION_SCALE))) blank.add(pageNumber);
+      }
+      if (blank.size === pagePlan.length) {
+        setError("Every selected page looks blank, so none were removed.");
+        return;
       }
+      // Functional update, so edits made while detection ran are kept
+      setPagePlan(prev => prev.filter(entry => !blank.has(entry.pageNumber)));
+    } catch (err) {
+      console.error(err);
+      setError("Failed to check pages for blank content.");
+    } finally {
+      setIsDetectingBlanks(false);
+    }
+  };
+
+  // Vector mode downloads the rewritten source PDF as-is
+  const downloadVectorPDF = async () => {
+    setIsProcessing(true);
+    try {
+      const vector = await getVectorResult(getColorizeParams());
+      const bytes = isIdentityPlan(pagePlan, numPages) ? vector.bytes : await applyPagePlanToPdf(vector.bytes, pagePlan);
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+      triggerDownload(url, `chromapdf_${selectedTheme}_${file?.name || 'document'}.pdf`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to generate vector PDF. The file may be encrypted or malformed.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Colorized pages in page plan order; pages left out of the plan are not exported
+  const getExportPages = (): RasterPdfPage[] =>
+    pagePlan.flatMap(({ pageNumber, rotation }) => {
+      const data = colorizedPages.get(pageNumber);
+      return data
+        ? [{ ...data, pageNumber, rotation, marginPercent: pageOverrides.get(pageNumber)?.marginPercent }]
+        : [];
+    });
+
+  // Estimate the download size from a couple of encoded pages; skipped while pages are still being produced
+  useEffect(() => {
+    if (colorMode !== 'raster' || isProcessing) return;
+    const exportPages = getExportPages();
+    if (exportPages.length === 0) {
+      setEstimatedExportBytes(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      setIsEstimatingExport(true);
+      estimateRasterPdfSize(exportPages, { marginPercent, encoding: exportOptions, inkHex: getDocumentInkHex() }, browserCanvasBackend)
+        .then(bytes => { if (!cancelled) setEstimatedExportBytes(bytes); })
+        .catch(err => console.error("Failed to estimate export size:", err))
+        .finally(() => { if (!cancelled) setIsEstimatingExport(false); });
+    }, 500);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [colorizedPages, pagePlan, pageOverrides, exportOptions, marginPercent, colorMode, isProcessing]);
+
+  // Download Handler (Rebuild PDF)
+  const handleDownloadPDF = async () => {
+    if (colorMode === 'vector') {
+      downloadVectorPDF();
+      return;
+    }
+    const exportPages = getExportPages();
+    if (exportPages.length === 0) {
+      setError("None of the colorized pages are in the page selection.");
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const bytes = await buildRasterPdf(
+        exportPages,
+        {
+          marginPercent,
+          metadata: pdfDoc ? await readPdfMetadata(pdfDoc) : undefined,
+          encoding: exportOptions,
+          inkHex: getDocumentInkHex(),
+        },
+        browserCanvasBackend
+      );
+
+      const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+      triggerDownload(url, `chromapdf_${selectedTheme}_${file?.name || 'document'}.pdf`);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
 
-      doc.save(`chromapdf_${selectedTheme}_${file?.name || 'document'}.pdf`);
+    } catch (err) {
+      console.error(err);
+      // Separation refusals name the pages to fix; anything else is unexpected
+      setError(exportOptions.encoding === 'separation' && err instanceof Error
+        ? err.message
+        : "Failed to generate PDF download. Try again.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // Name used in exported file names, without the .pdf extension
+  const getDocumentName = () => (file?.name || 'document').replace(/\.pdf$/i, '');
 
+  // Download all exported pages as a ZIP of images or a multi-page TIFF
+  const handleDownloadImages = async () => {
+    const exportPages = getExportPages();
+    if (exportPages.length === 0) {
+      setError("None of the colorized pages are in the page selection.");
+      return;
+    }
+
+    setImageExportProgress({ done: 0, total: exportPages.length });
+    setError(null);
+    try {
+      const archive = await buildImageArchive(
+        exportPages,
+        imageExport,
+        { name: getDocumentName(), theme: selectedTheme },
+        browserCanvasBackend,
+        (done, total) => setImageExportProgress({ done, total })
+      );
+      const url = URL.createObjectURL(new Blob([archive.data], { type: archive.mimeType }));
+      triggerDownload(url, archive.fileName);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
     } catch (err) {
       console.error(err);
-      setError("Failed to generate PDF download. Try again.");
+      setError(imageExport.format === 'avif'
+        ? "This browser cannot encode AVIF images. Choose WebP or PNG instead."
+        : "Failed to export page images. Try again.");
+    } finally {
+      setImageExportProgress(null);
     }
   };
 
@@ -281,35 +1490,80 @@ export default function App() {
     const pageData = colorizedPages.get(currentPage);
     if (!pageData) return;
 
-    const link = document.createElement('a');
-    link.href = pageData.imageUrl;
-    link.download = `page_${currentPage}_${selectedTheme}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const url = URL.createObjectURL(pageData.image);
+    triggerDownload(url, `page_${currentPage}_${selectedTheme}.png`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
   };
 
   const handleReset = () => {
+    documentSessionRef.current++;
+    // A run still going would keep writing pages for a document that is gone
+    cancelBatch();
+    stopFileQueue();
+    setFileQueue([]);
+    setProjectId(null);
     setFile(null);
     setPdfDoc(null);
     setColorizedPages(new Map());
+    setPagePlan([]);
+    setPageThumbnails(new Map());
+    setBatchFailures([]);
+    setPendingCheckpoint(null);
+    setSavedProjectOffer(null);
     setOriginalPageImage(null);
     setCurrentPage(1);
     setError(null);
     setBatchProgress(null);
     setSelectedTheme('black');
+    setPaperHex(DEFAULT_PAPER_HEX);
+    setPageRegions(new Map());
+    setRegionTool('none');
+    setSelectedRegionId(null);
+    setTextRules([]);
+    textLinesCacheRef.current = new Map();
+    setPreserveColorPhotos(false);
+    setEnforceContrast(false);
+    setAutoBoldness(false);
+    setSmoothEdges(false);
+    setPageOverrides(new Map());
+    setScanCleanup(NO_SCAN_CLEANUP);
+    setShowCleanedOriginal(true);
     setMarginPercent(0);
     setIsCustomMargin(false);
+    setExportOptions(DEFAULT_PAGE_ENCODING);
+    setImageExport(DEFAULT_IMAGE_ARCHIVE);
+    setEstimatedExportBytes(null);
     setResolutionScale(3.0);
     setBoldness(60);
+    setColorMode('raster');
+    setToneMode('global');
+    setAdaptiveOptions(DEFAULT_ADAPTIVE_THRESHOLD);
+    clearVectorResult();
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  const isAutoBoldnessShown = autoBoldness && colorMode === 'raster';
+
   return (
-    <div className="min-h-screen flex flex-col bg-gray-50 text-gray-900 font-sans">
+    <div
+      className="min-h-screen flex flex-col bg-gray-50 text-gray-900 font-sans"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       
+      {/* Drop target hint */}
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 pointer-events-none flex items-center justify-center bg-indigo-600/10 border-4 border-dashed border-indigo-400">
+          <div className="bg-white rounded-xl shadow-xl px-6 py-4 text-indigo-700 font-medium">
+            <i className="fas fa-file-import mr-2"></i>
+            {file ? 'Drop PDFs to add them to the queue' : 'Drop PDFs to open them'}
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-30 shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
@@ -367,17 +1621,30 @@ export default function App() {
                 ref={fileInputRef}
                 type="file"
                 accept="application/pdf"
+                multiple
                 onChange={handleFileUpload}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
               />
               <Button size="lg" className="w-full sm:w-auto relative z-0 pointer-events-none group-hover:bg-indigo-700">
-                <UploadIcon /> <span className="ml-2">Select PDF File</span>
+                <UploadIcon /> <span className="ml-2">Select PDF Files</span>
               </Button>
             </div>
-            <p className="mt-4 text-xs text-gray-400">Supported format: .pdf (Max 10MB recommended)</p>
+            <p className="mt-4 text-xs text-gray-400">
+              Or drop them here. Several files go into a queue that uses the first one's settings.
+            </p>
+            <p className="mt-1 text-xs text-gray-400">Supported format: .pdf (Max 10MB recommended)</p>
           </div>
         )}
 
+        {!file && (
+          <RecentProjects
+            projects={recentProjects}
+            onOpen={openProject}
+            onDelete={handleDeleteProject}
+            disabled={isRenderingPdf}
+          />
+        )}
+
         {/* Control Bar (Only when file loaded) */}
         {file && (
           <div className="w-full max-w-7xl bg-white p-4 rounded-xl shadow-sm border border-gray-200 flex flex-col gap-4 sticky top-20 z-20 transition-all">
@@ -391,9 +1658,9 @@ export default function App() {
                   {THEMES.map((theme) => (
                     <button
                       key={theme.id}
-                      onClick={() => setSelectedTheme(theme.id)}
+                      onClick={() => selectTheme(theme)}
                       className={`w-9 h-9 rounded-full shadow-sm transition-transform hover:scale-110 focus:outline-none flex items-center justify-center border-2 ${selectedTheme === theme.id ? 'border-gray-900 scale-110' : 'border-transparent'}`}
-                      style={{ background: theme.hex }}
+                      style={{ background: themeSwatchCss(theme) }}
                       title={theme.name}
                     >
                       {selectedTheme === theme.id && <i className="fas fa-check text-white text-[10px] drop-shadow-md"></i>}
@@ -417,7 +1684,41 @@ export default function App() {
                       />
                     </div>
                   </div>
+
+                  {/* Custom Palette (gradient map) */}
+                  <button
+                    onClick={() => {
+                      setSelectedTheme('palette');
+                      setShowSettings(true);
+                    }}
+                    className={`w-9 h-9 rounded-full shadow-sm transition-transform hover:scale-110 focus:outline-none flex items-center justify-center border-2 ${selectedTheme === 'palette' ? 'border-gray-900 scale-110' : 'border-gray-200'}`}
+                    style={{ background: paletteToCss(customPalette) }}
+                    title="Custom Palette (duotone/tritone)"
+                  >
+                    {selectedTheme === 'palette' && <i className="fas fa-check text-white text-[10px] drop-shadow-md"></i>}
+                  </button>
                 </div>
+                {/* Paper / Background Color */}
+                <label
+                  className={`flex items-center gap-2 pl-3 border-l border-gray-200 text-xs text-gray-500 ${getActivePalette() ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'}`}
+                  title={getActivePalette() ? 'Palette themes use their last stop as the paper color' : 'Paper / background color'}
+                >
+                  <span className="relative w-7 h-7 rounded-md border border-gray-300 shadow-inner overflow-hidden" style={{ background: getActivePalette() ? rgbToHex(getPaperColor(getColorizeParams())) : paperHex }}>
+                    <input
+                      type="color"
+                      value={paperHex}
+                      disabled={!!getActivePalette()}
+                      onChange={(e) => setPaperHex(e.target.value)}
+                      className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
+                    />
+                  </span>
+                  <span className="hidden lg:inline font-medium uppercase tracking-wider">Paper</span>
+                </label>
+
+                <button onClick={() => setShowSettings(true)} className="hidden sm:block" title="Contrast settings">
+                  <ContrastBadge {...getChosenInkAndPaper()} />
+                </button>
+
                 <button 
                   onClick={() => setShowSettings(!showSettings)}
                   className={`ml-2 text-gray-400 hover:text-indigo-600 transition-colors ${showSettings ? 'text-indigo-600' : ''}`}
@@ -438,20 +1739,37 @@ export default function App() {
                  </Button>
                  
                  <Button 
-                    onClick={handleColorizeAll} 
+                    onClick={() => handleColorizeAll()} 
                     disabled={isProcessing} 
                     variant="secondary"
                     className="whitespace-nowrap h-10 text-sm"
                   >
-                    <LayersIcon /> <span className="ml-2">Colorize All</span>
+                    <LayersIcon /> <span className="ml-2">{isIdentityPlan(pagePlan, numPages) ? 'Colorize All' : `Colorize ${pagePlan.length} Pages`}</span>
                  </Button>
               </div>
             </div>
 
             {/* Bottom Row: Advanced Settings (Expandable) */}
             {showSettings && (
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-4 border-t border-gray-100 animate-fade-in text-sm text-gray-600">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-6 pt-4 border-t border-gray-100 animate-fade-in text-sm text-gray-600">
                   
+                  {/* Presets */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Presets</label>
+                       <span className="text-[10px] text-gray-400">Color, boldness, margin, resolution and mode · shared as JSON</span>
+                     </div>
+                     <PresetsPanel
+                       presets={presets}
+                       activePreset={activePreset}
+                       onApply={applyPreset}
+                       onSave={handleSavePreset}
+                       onDelete={handleDeletePreset}
+                       onExport={handleExportPresets}
+                       onImport={handleImportPresets}
+                     />
+                  </div>
+
                   {/* Resolution */}
                   <div className="flex flex-col gap-1">
                      <div className="flex justify-between">
@@ -476,24 +1794,67 @@ export default function App() {
 
                   {/* Boldness / Threshold */}
                   <div className="flex flex-col gap-1">
-                     <div className="flex justify-between">
+                     <div className="flex justify-between items-center">
                        <label className="font-medium text-xs uppercase tracking-wider">Boldness / Depth</label>
-                       <span className="text-xs text-indigo-600 font-bold">{boldness}%</span>
+                       <span className="flex items-center gap-2">
+                         {colorMode === 'raster' && (
+                           <label className="flex items-center gap-1 text-[10px] text-gray-500 cursor-pointer" title="Pick black point, white point and gamma from each page's tones">
+                             <input
+                               type="checkbox"
+                               checked={autoBoldness}
+                               onChange={(e) => setAutoBoldness(e.target.checked)}
+                               className="accent-indigo-600"
+                             />
+                             Auto
+                           </label>
+                         )}
+                         <span className="text-xs text-indigo-600 font-bold">
+                           {isAutoBoldnessShown ? (suggestedBoldness === null ? '…' : `${suggestedBoldness}%`) : `${boldness}%`}
+                         </span>
+                       </span>
                      </div>
                      <input 
                        type="range" 
                        min="0" 
                        max="100" 
                        step="5" 
-                       value={boldness} 
+                       value={isAutoBoldnessShown ? suggestedBoldness ?? boldness : boldness} 
                        onChange={(e) => setBoldness(Number(e.target.value))}
-                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
-                       title="Increase for deeper color, decrease for smoother edges."
+                       disabled={isAutoBoldnessShown}
+                       className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:cursor-default disabled:opacity-60"
+                       title={isAutoBoldnessShown ? `Suggested for page ${currentPage} from its histogram` : "Increase for deeper color, decrease for smoother edges."}
                      />
                      <div className="flex justify-between text-[10px] text-gray-400">
                         <span>Soft</span>
                         <span>Sharp</span>
                      </div>
+                     {colorMode === 'raster' && (
+                       <label className="flex items-center gap-1 text-[10px] text-gray-500 cursor-pointer" title="Keeps ink solid while giving its outline a one-pixel ramp; not used by adaptive tone mapping">
+                         <input
+                           type="checkbox"
+                           checked={smoothEdges}
+                           onChange={(e) => setSmoothEdges(e.target.checked)}
+                           className="accent-indigo-600"
+                         />
+                         Smooth edges (anti-aliasing)
+                       </label>
+                     )}
+                  </div>
+
+                  {/* Colorization Mode */}
+                  <div className="flex flex-col gap-1">
+                     <label className="font-medium text-xs uppercase tracking-wider">Colorization Mode</label>
+                     <div className="flex items-center bg-gray-50 rounded-lg border border-gray-200 px-2 h-8">
+                        <select
+                            value={colorMode}
+                            onChange={(e) => setColorMode(e.target.value as ColorMode)}
+                            className="text-xs bg-transparent border-none outline-none focus:ring-0 text-gray-700 cursor-pointer w-full"
+                            title="Vector mode keeps selectable text, links and sharp paths."
+                        >
+                            <option value="raster">Raster (image per page)</option>
+                            <option value="vector">Vector (keep text layer)</option>
+                        </select>
+                     </div>
                   </div>
 
                   {/* Margins */}
@@ -532,30 +1893,313 @@ export default function App() {
                      </div>
                   </div>
 
+                  {/* Tone Mapping */}
+                  <div className="flex flex-col gap-2 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Tone Mapping</label>
+                       <span className="text-[10px] text-gray-400">Adaptive is raster mode only</span>
+                     </div>
+                     <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <div className="flex items-center bg-gray-50 rounded-lg border border-gray-200 px-2 h-8">
+                           <select
+                               value={toneMode}
+                               onChange={(e) => setToneMode(e.target.value as ToneMode)}
+                               className="text-xs bg-transparent border-none outline-none focus:ring-0 text-gray-700 cursor-pointer w-full"
+                               title="Adaptive thresholding copes with uneven lighting on scans."
+                           >
+                               <option value="global">Global curve (boldness)</option>
+                               <option value="adaptive">Adaptive (local threshold)</option>
+                           </select>
+                        </div>
+                        {toneMode === 'adaptive' && (
+                          <>
+                            <div className="flex flex-col gap-1">
+                               <div className="flex justify-between text-xs">
+                                 <span>Window size</span>
+                                 <span className="text-indigo-600 font-bold">{adaptiveOptions.windowPercent}%</span>
+                               </div>
+                               <input
+                                 type="range"
+                                 min={MIN_WINDOW_PERCENT}
+                                 max={MAX_WINDOW_PERCENT}
+                                 step="1"
+                                 value={adaptiveOptions.windowPercent}
+                                 onChange={(e) => setAdaptiveOptions(prev => ({ ...prev, windowPercent: Number(e.target.value) }))}
+                                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                                 title="Neighbourhood size as a share of the page width. Use larger windows for large type."
+                               />
+                            </div>
+                            <div className="flex flex-col gap-1">
+                               <div className="flex justify-between text-xs">
+                                 <span>Sensitivity</span>
+                                 <span className="text-indigo-600 font-bold">{adaptiveOptions.sensitivity}%</span>
+                               </div>
+                               <input
+                                 type="range"
+                                 min="0"
+                                 max="100"
+                                 step="5"
+                                 value={adaptiveOptions.sensitivity}
+                                 onChange={(e) => setAdaptiveOptions(prev => ({ ...prev, sensitivity: Number(e.target.value) }))}
+                                 className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                                 title="Higher values pick up fainter ink, lower values ignore more background noise."
+                               />
+                            </div>
+                          </>
+                        )}
+                     </div>
+                  </div>
+
+                  {/* Text Rules */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Text Rules</label>
+                       <span className="text-[10px] text-gray-400">Raster mode · matched from the PDF text layer</span>
+                     </div>
+                     <TextRulesPanel rules={textRules} defaultBoldness={boldness} onChange={setTextRules} />
+                  </div>
+
+                  {/* Scan Cleanup */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Scan Cleanup</label>
+                       <span className="text-[10px] text-gray-400">Raster mode · runs before colorizing</span>
+                     </div>
+                     <div className="flex flex-wrap gap-4 text-xs">
+                        {([
+                          ['flattenBackground', 'Flatten background', 'Turns grey or unevenly lit paper white so it is not tinted as ink'],
+                          ['despeckle', 'Despeckle', 'Removes isolated dust and noise specks'],
+                          ['deskew', 'Deskew', 'Straightens pages scanned a few degrees off'],
+                        ] as [keyof ScanCleanupOptions, string, string][]).map(([key, label, hint]) => (
+                          <label key={key} className="flex items-center gap-2 cursor-pointer" title={hint}>
+                            <input
+                              type="checkbox"
+                              checked={scanCleanup[key]}
+                              onChange={(e) => setScanCleanup(prev => ({ ...prev, [key]: e.target.checked }))}
+                              className="accent-indigo-600"
+                            />
+                            {label}
+                          </label>
+                        ))}
+                     </div>
+                  </div>
+
+                  {/* Contrast */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Contrast</label>
+                       <span className="text-[10px] text-gray-400">WCAG 2 · full-strength ink on the paper color</span>
+                     </div>
+                     <ContrastPanel
+                       {...getChosenInkAndPaper()}
+                       enforceAA={enforceContrast}
+                       onEnforceAAChange={setEnforceContrast}
+                       onUseShade={replaceInkColor}
+                     />
+                  </div>
+
+                  {/* Color Photos */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <label className="font-medium text-xs uppercase tracking-wider">Color Photos</label>
+                     <label className="flex items-center gap-2 text-xs cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={preserveColorPhotos}
+                          onChange={(e) => setPreserveColorPhotos(e.target.checked)}
+                          className="accent-indigo-600"
+                        />
+                        Detect color photos and charts and leave them untouched, recoloring only the grayscale ink
+                     </label>
+                  </div>
+
+                  {/* Export Compression */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Export Compression</label>
+                       <span className="text-[10px] text-gray-400">Raster mode · how page images are stored in the PDF</span>
+                     </div>
+                     <ExportOptionsPanel
+                       options={exportOptions}
+                       onChange={setExportOptions}
+                       estimatedBytes={colorMode === 'raster' ? estimatedExportBytes : null}
+                       isEstimating={isEstimatingExport}
+                       onUseInkColor={replaceInkColor}
+                     />
+                  </div>
+
+                  {/* Image Export */}
+                  <div className="flex flex-col gap-1 md:col-span-4">
+                     <div className="flex justify-between">
+                       <label className="font-medium text-xs uppercase tracking-wider">Image Export</label>
+                       <span className="text-[10px] text-gray-400">All pages in the page selection · built in your browser</span>
+                     </div>
+                     <ImageExportPanel
+                       options={imageExport}
+                       onChange={setImageExport}
+                       example={{ name: getDocumentName(), theme: selectedTheme, page: pagePlan[0]?.pageNumber ?? 1, index: 1 }}
+                       pageCount={pagePlan.filter(entry => colorizedPages.has(entry.pageNumber)).length}
+                       progress={imageExportProgress}
+                       onDownload={handleDownloadImages}
+                     />
+                  </div>
+
+                  {/* Palette Stops (custom palette only) */}
+                  {selectedTheme === 'palette' && (
+                    <div className="flex flex-col gap-1 md:col-span-4">
+                       <label className="font-medium text-xs uppercase tracking-wider">Palette Stops</label>
+                       <PaletteEditor stops={customPalette} onChange={setCustomPalette} />
+                    </div>
+                  )}
+
               </div>
             )}
           </div>
         )}
 
+        {/* Offer the saved project for a file that was opened fresh */}
+        {savedProjectOffer && (
+           <div className="w-full max-w-2xl bg-amber-50 border border-amber-200 text-amber-900 rounded-lg p-4 shadow-sm flex items-center justify-between gap-4 animate-fade-in">
+              <div className="flex items-center">
+                 <i className="fas fa-folder-open mr-3 text-amber-500"></i>
+                 <div>
+                    <p className="font-semibold text-sm">This file has a saved project</p>
+                    <p className="text-xs text-amber-700">
+                      Last edited {new Date(savedProjectOffer.updatedAt).toLocaleString()}; reopen it to continue with its settings and pages.
+                      Changes here are not saved until you start a new project.
+                    </p>
+                 </div>
+              </div>
+              <div className="flex gap-2">
+                 <Button variant="ghost" onClick={handleStartNewProject} className="text-xs h-8 px-3">Start new project</Button>
+                 <Button onClick={() => openProject(savedProjectOffer.id)} disabled={isProcessing} className="text-xs h-8 px-3">Reopen saved project</Button>
+              </div>
+           </div>
+        )}
+
+        {/* Resume an interrupted batch */}
+        {pendingCheckpoint && !batchProgress && (
+           <div className="w-full max-w-2xl bg-amber-50 border border-amber-200 text-amber-900 rounded-lg p-4 shadow-sm flex items-center justify-between gap-4 animate-fade-in">
+              <div className="flex items-center">
+                 <i className="fas fa-history mr-3 text-amber-500"></i>
+                 <div>
+                    <p className="font-semibold text-sm">Unfinished batch for this file</p>
+                    <p className="text-xs text-amber-700">
+                      {colorizedPages.size} pages done, {pendingCheckpoint.pending.length + pendingCheckpoint.failures.length} left
+                      · saved {new Date(pendingCheckpoint.updatedAt).toLocaleString()}
+                    </p>
+                 </div>
+              </div>
+              <div className="flex gap-2">
+                 <Button variant="ghost" onClick={handleDiscardCheckpoint} className="text-xs h-8 px-3">Discard</Button>
+                 <Button onClick={handleResumeCheckpoint} disabled={isProcessing} className="text-xs h-8 px-3">Resume</Button>
+              </div>
+           </div>
+        )}
+
         {/* Batch Progress Overlay */}
         {batchProgress && (
-           <div className="w-full max-w-2xl bg-indigo-900 text-white rounded-lg p-4 shadow-lg flex items-center justify-between animate-fade-in z-40 relative">
+           <div className="w-full max-w-2xl bg-indigo-900 text-white rounded-lg p-4 shadow-lg flex items-center justify-between gap-4 animate-fade-in z-40 relative">
               <div className="flex items-center">
-                 <div className="animate-spin mr-3"><i className="fas fa-circle-notch"></i></div>
+                 <div className={`mr-3 ${isBatchPaused ? '' : 'animate-spin'}`}><i className={`fas ${isBatchPaused ? 'fa-pause' : 'fa-circle-notch'}`}></i></div>
                  <div>
-                    <p className="font-semibold">Batch Processing...</p>
-                    <p className="text-xs text-indigo-200">Processing page {batchProgress.current} of {batchProgress.total}</p>
+                    <p className="font-semibold">{isBatchPaused ? 'Paused' : 'Batch Processing...'}</p>
+                    <p className="text-xs text-indigo-200">Processed {batchProgress.current} of {batchProgress.total} pages</p>
                  </div>
               </div>
-              <div className="w-32 bg-indigo-800 rounded-full h-2">
-                 <div 
-                   className="bg-indigo-400 h-2 rounded-full transition-all duration-300" 
-                   style={{ width: `${(batchProgress.current / batchProgress.total) * 100}%` }}
-                 ></div>
+              <div className="flex items-center gap-3">
+                 <div className="w-32 bg-indigo-800 rounded-full h-2">
+                    <div 
+                      className="bg-indigo-400 h-2 rounded-full transition-all duration-300" 
+                      style={{ width: `${(batchProgress.current / batchProgress.total) * 100}%` }}
+                    ></div>
+                 </div>
+                 <button
+                   onClick={isBatchPaused ? resumeBatch : pauseBatch}
+                   className="w-8 h-8 rounded-full bg-indigo-800 hover:bg-indigo-700 flex items-center justify-center"
+                   title={isBatchPaused ? 'Resume' : 'Pause after the pages in progress'}
+                 >
+                   <i className={`fas ${isBatchPaused ? 'fa-play' : 'fa-pause'} text-xs`}></i>
+                 </button>
+                 <button
+                   onClick={cancelBatch}
+                   className="w-8 h-8 rounded-full bg-indigo-800 hover:bg-red-600 flex items-center justify-center"
+                   title="Cancel; pages already done are kept"
+                 >
+                   <i className="fas fa-stop text-xs"></i>
+                 </button>
               </div>
            </div>
         )}
 
+        {/* Batch failure report */}
+        {batchFailures.length > 0 && !batchProgress && (
+           <div className="w-full max-w-2xl bg-white border border-red-200 rounded-lg p-4 shadow-sm flex flex-col gap-2 animate-fade-in">
+              <div className="flex items-center justify-between">
+                 <p className="font-semibold text-sm text-red-700">
+                   <i className="fas fa-exclamation-triangle mr-2"></i>
+                   {batchFailures.length} {batchFailures.length === 1 ? 'page' : 'pages'} failed
+                 </p>
+                 <div className="flex gap-2">
+                    <Button variant="ghost" onClick={() => setBatchFailures([])} className="text-xs h-8 px-3">Dismiss</Button>
+                    <Button
+                      onClick={() => handleColorizeAll(batchFailures.map(failure => failure.pageNumber))}
+                      disabled={isProcessing}
+                      className="text-xs h-8 px-3"
+                    >
+                      <i className="fas fa-redo mr-2"></i>Retry failed pages
+                    </Button>
+                 </div>
+              </div>
+              <ul className="text-xs text-gray-600 max-h-40 overflow-y-auto divide-y divide-gray-100">
+                 {batchFailures.map(failure => (
+                   <li key={failure.pageNumber} className="py-1 flex gap-3">
+                     <button onClick={() => setCurrentPage(failure.pageNumber)} className="font-medium text-indigo-600 hover:text-indigo-800 w-16 text-left">
+                       Page {failure.pageNumber}
+                     </button>
+                     <span className="flex-1 break-words">{failure.reason}</span>
+                   </li>
+                 ))}
+              </ul>
+           </div>
+        )}
+
+        {/* Multi-file queue */}
+        {file && fileQueue.length > 0 && (
+          <div className="w-full max-w-7xl">
+            <FileQueue
+              items={fileQueue}
+              isRunning={isQueueRunning}
+              disabled={isProcessing}
+              onRun={runFileQueue}
+              onStop={stopFileQueue}
+              onRemove={(id) => setFileQueue(prev => prev.filter(item => item.id !== id))}
+              onDownload={downloadQueuedFile}
+              onMerge={downloadMergedQueue}
+              onClear={() => setFileQueue([])}
+              onAddFiles={(files) => handleIncomingFiles(files)}
+            />
+          </div>
+        )}
+
+        {/* Page Plan */}
+        {file && numPages > 0 && (
+          <div className="w-full max-w-7xl bg-white p-4 rounded-xl shadow-sm border border-gray-200">
+            <PageStrip
+              numPages={numPages}
+              plan={pagePlan}
+              onChange={setPagePlan}
+              thumbnails={pageThumbnails}
+              currentPage={currentPage}
+              onSelectPage={setCurrentPage}
+              colorizedPages={new Set(colorizedPages.keys())}
+              customizedPages={new Set(pageOverrides.keys())}
+              onDropBlankPages={handleDropBlankPages}
+              isDetectingBlanks={isDetectingBlanks}
+              disabled={isProcessing}
+            />
+          </div>
+        )}
+
         {/* Viewer State */}
         {file && (
           <div className="w-full max-w-7xl grid grid-cols-1 lg:grid-cols-2 gap-8 h-full">
@@ -566,21 +2210,41 @@ export default function App() {
                 <h3 className="text-lg font-semibold text-gray-700 flex items-center">
                   <span className="w-6 h-6 rounded-full bg-gray-200 text-gray-600 text-xs flex items-center justify-center mr-2">1</span>
                   Original
+                  {cleanedPageUrl && (
+                    <span className="ml-3 flex bg-white rounded-full border border-gray-200 shadow-sm text-xs font-medium overflow-hidden">
+                      <button
+                        onClick={() => setShowCleanedOriginal(false)}
+                        className={`px-2 py-0.5 ${showCleanedOriginal ? 'text-gray-500 hover:text-indigo-600' : 'bg-indigo-600 text-white'}`}
+                      >
+                        Before
+                      </button>
+                      <button
+                        onClick={() => setShowCleanedOriginal(true)}
+                        className={`px-2 py-0.5 ${showCleanedOriginal ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-indigo-600'}`}
+                        title="After scan cleanup"
+                      >
+                        After
+                      </button>
+                    </span>
+                  )}
                 </h3>
                 <div className="flex items-center space-x-2 text-sm bg-white px-3 py-1 rounded-full shadow-sm border border-gray-200">
                   <button 
                     onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                    disabled={currentPage === 1 || isProcessing}
+                    disabled={currentPage === 1 || (isProcessing && !batchProgress)}
                     className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
                   >
                     <ChevronLeftIcon />
                   </button>
-                  <span className="text-gray-600 font-medium w-16 text-center">
+                  <span className="text-gray-600 font-medium w-16 text-center relative">
                     {currentPage} / {numPages}
+                    {hasPageOverrides(pageOverrides.get(currentPage)) && (
+                      <span className="absolute -top-0.5 -right-1 w-2 h-2 rounded-full bg-amber-500" title="This page has its own settings"></span>
+                    )}
                   </span>
                   <button 
                     onClick={() => setCurrentPage(p => Math.min(numPages, p + 1))}
-                    disabled={currentPage === numPages || isProcessing}
+                    disabled={currentPage === numPages || (isProcessing && !batchProgress)}
                     className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30"
                   >
                     <ChevronRightIcon />
@@ -595,22 +2259,57 @@ export default function App() {
                      <span className="text-sm">Rendering PDF...</span>
                   </div>
                 ) : originalPageImage ? (
-                  <div className="overflow-auto w-full h-full flex items-center justify-center p-4">
-                    <img 
-                      src={originalPageImage.dataUrl} 
-                      alt={`Page ${currentPage} Original`} 
-                      className="max-w-none shadow-lg object-contain"
-                      style={{ 
-                        // If resolution is high, scale down for preview, but allow zoom logic if implemented (simple fit here)
-                        maxHeight: '100%', 
-                        maxWidth: '100%' 
-                      }}
-                    />
-                  </div>
+                  <ZoomPane view={view} onViewChange={setView} panEnabled={regionTool === 'none' || colorMode !== 'raster'}>
+                    <div className="relative">
+                      <img 
+                        src={originalPreviewUrl} 
+                        alt={`Page ${currentPage} Original`} 
+                        className="block w-full h-auto shadow-lg"
+                        draggable={false}
+                      />
+                      {colorMode === 'raster' && (
+                        <RegionOverlay
+                          regions={currentRegions}
+                          previewRegions={currentRuleRegions}
+                          tool={regionTool}
+                          selectedId={selectedRegionId}
+                          onCreate={handleCreateRegion}
+                          onSelect={setSelectedRegionId}
+                        />
+                      )}
+                    </div>
+                  </ZoomPane>
                 ) : (
                   <span className="text-gray-400">No page loaded</span>
                 )}
               </div>
+
+              {colorMode === 'raster' && (
+                <PageOverridesPanel
+                  pageNumber={currentPage}
+                  overrides={pageOverrides.get(currentPage)}
+                  defaults={getPageSettings()}
+                  onChange={(patch) => updatePageOverrides(currentPage, patch)}
+                  onClear={() => clearPageOverrides(currentPage)}
+                />
+              )}
+
+              {colorMode === 'raster' ? (
+                <RegionList
+                  regions={currentRegions}
+                  tool={regionTool}
+                  selectedId={selectedRegionId}
+                  currentPage={currentPage}
+                  numPages={numPages}
+                  onToolChange={setRegionTool}
+                  onSelect={setSelectedRegionId}
+                  onChange={(region) => setRegionsForPage(currentPage, currentRegions.map(r => (r.id === region.id ? region : r)))}
+                  onDelete={(id) => setRegionsForPage(currentPage, currentRegions.filter(r => r.id !== id))}
+                  onApplyToPages={handleApplyRegionsToPages}
+                />
+              ) : (
+                <p className="text-xs text-gray-400">Color regions apply in raster mode only.</p>
+              )}
             </div>
 
             {/* Right Column: Result */}
@@ -622,6 +2321,37 @@ export default function App() {
                 </h3>
                 
                 <div className="flex items-center space-x-2">
+                    {colorMode === 'raster' && (
+                      <label className="flex items-center gap-1 text-xs text-gray-500 cursor-pointer" title="Recolor this page as settings change">
+                        <input
+                          type="checkbox"
+                          checked={isLivePreview}
+                          onChange={(e) => setIsLivePreview(e.target.checked)}
+                          className="accent-indigo-600"
+                        />
+                        Live
+                      </label>
+                    )}
+
+                    <span className="flex bg-white rounded border border-gray-200 text-xs font-medium overflow-hidden h-8">
+                      <button
+                        onClick={() => setIsSplitView(false)}
+                        className={`px-2 ${isSplitView ? 'text-gray-500 hover:text-indigo-600' : 'bg-indigo-600 text-white'}`}
+                        title="Result only"
+                      >
+                        <i className="fas fa-image"></i>
+                      </button>
+                      <button
+                        onClick={() => setIsSplitView(true)}
+                        className={`px-2 ${isSplitView ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-indigo-600'}`}
+                        title="Before/after split"
+                      >
+                        <i className="fas fa-columns"></i>
+                      </button>
+                    </span>
+
+                    <CvdSelect value={cvdSimulation} onChange={setCvdSimulation} />
+
                     {/* Download Buttons */}
                     {colorizedPages.has(currentPage) && (
                       <Button 
@@ -635,7 +2365,20 @@ export default function App() {
                       </Button>
                     )}
 
-                    {colorizedPages.size > 0 && (
+                    {colorizedPages.size > 1 && (
+                      <Button 
+                          variant="ghost" 
+                          onClick={handleDownloadImages} 
+                          className="text-xs h-8 px-2 border border-gray-200 bg-white"
+                          disabled={isProcessing || imageExportProgress !== null}
+                          title={`Download every page as ${imageExport.format === 'tiff' ? 'a multi-page TIFF' : `a ZIP of ${imageExport.format.toUpperCase()} images`} (see Image Export in the settings)`}
+                      >
+                          <i className={`fas ${imageExportProgress ? 'fa-circle-notch fa-spin' : 'fa-file-archive'}`}></i>
+                          <span className="ml-1 hidden sm:inline">{imageExport.format === 'tiff' ? 'TIFF' : 'ZIP'}</span>
+                      </Button>
+                    )}
+
+                    {(colorizedPages.size > 0 || colorMode === 'vector') && (
                     <Button 
                         variant="secondary" 
                         onClick={handleDownloadPDF} 
@@ -659,23 +2402,43 @@ export default function App() {
                     </div>
                     <p className="font-medium animate-pulse">Processing Page...</p>
                   </div>
-                ) : colorizedPages.has(currentPage) ? (
-                  <div className="overflow-auto w-full h-full flex items-center justify-center p-4">
-                    <img 
-                      src={colorizedPages.get(currentPage)?.imageUrl} 
-                      alt={`Page ${currentPage} Colorized`} 
-                      className="max-w-none shadow-lg object-contain animate-fade-in"
-                      style={{ 
-                        maxHeight: '100%', 
-                        maxWidth: '100%' 
-                      }}
-                    />
-                    <div className="absolute top-4 right-4 z-10">
+                ) : resultPageUrl ? (
+                  <>
+                    <ZoomPane view={view} onViewChange={setView}>
+                      {isSplitView && originalPreviewUrl ? (
+                        <CompareSlider
+                          beforeUrl={originalPreviewUrl}
+                          afterUrl={resultPageUrl}
+                          beforeLabel="Original"
+                          afterLabel="Colorized"
+                          afterFilter={cvdFilterCss(cvdSimulation)}
+                        />
+                      ) : (
+                        <img 
+                          src={resultPageUrl} 
+                          alt={`Page ${currentPage} Colorized`} 
+                          className="block w-full h-auto shadow-lg animate-fade-in"
+                          style={{ filter: cvdFilterCss(cvdSimulation) }}
+                          draggable={false}
+                        />
+                      )}
+                    </ZoomPane>
+                    <div className="absolute top-4 right-4 z-10 flex flex-col items-end gap-1 pointer-events-none">
+                       {(isLiveUpdating || liveDraftUrl) && (
+                         <span className="bg-white/90 text-indigo-700 text-xs px-2 py-1 rounded-full font-medium shadow-sm border border-indigo-200">
+                           <i className="fas fa-circle-notch fa-spin mr-1"></i>{liveDraftUrl ? 'Draft' : 'Updating'}
+                         </span>
+                       )}
                        <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full font-medium shadow-sm border border-green-200 backdrop-blur-sm bg-opacity-90">
                          {getActiveThemeName()}
                        </span>
+                       {cvdSimulation && (
+                         <span className="bg-amber-100 text-amber-800 text-xs px-2 py-1 rounded-full font-medium shadow-sm border border-amber-200">
+                           <i className="fas fa-eye mr-1"></i>Simulating {CVD_LABELS[cvdSimulation]}
+                         </span>
+                       )}
                     </div>
-                  </div>
+                  </>
                 ) : (
                   <div className="text-center p-8">
                     <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4 text-gray-300">
@@ -686,6 +2449,8 @@ export default function App() {
                   </div>
                 )}
               </div>
+
+              <CvdWarnings pairs={findConfusablePairs(getCvdCheckColors())} />
             </div>
 
           </div>
@@ -693,6 +2458,8 @@ export default function App() {
 
       </main>
 
+      <CvdFilterDefs />
+
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 py-6 mt-auto">
         <div className="max-w-7xl mx-auto px-4 text-center text-gray-400 text-sm">
@@ -0,0 +1,258 @@
+#!/usr/bin/env node
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { ColorizeParams } from '../services/colorizeCore';
+import { WCAG_AA_CONTRAST } from '../services/contrast';
+import { createPdfCanvasFactory } from '../services/canvasBackend';
+import { renderColorizedPage } from '../services/pagePipeline';
+import {
+  DEFAULT_PAGE_ENCODING,
+  DEFAULT_PRINT_INK,
+  MAX_PALETTE_SIZE,
+  MIN_PALETTE_SIZE,
+  PageEncoding,
+  PageEncodingOptions,
+  PrintInk,
+} from '../services/pageEncoding';
+import { Cmyk, findSpotColor, SPOT_COLOR_LIBRARY } from '../services/spotColors';
+import { buildRasterPdf, RasterPdfPage } from '../services/pdfExport';
+import { buildImageArchive, DEFAULT_IMAGE_ARCHIVE, ImageArchiveFormat, ImageArchiveOptions } from '../services/imageArchive';
+import { parsePageRange } from '../services/pagePlan';
+import { readPdfMetadata } from '../services/pdfMetadata';
+import { expandInputs } from './expandInputs';
+import { installCanvasGlobals, nodeCanvasBackend } from './nodeCanvasBackend';
+
+const USAGE = `Usage: chromapdf [options] <file|dir|glob>...
+
+Colorizes PDFs with the same pipeline as the web app and writes chromapdf_<name>.pdf.
+
+Options:
+  -c, --color <hex>      Ink color (default #000000)
+  -b, --boldness <0-100> Boldness / depth of the tone curve (default 60)
+      --auto-boldness    Derive each page's tone curve from its histogram instead of --boldness
+      --smooth-edges     Anti-alias ink outlines, for smooth edges at high boldness
+      --enforce-aa       Darken the ink to the nearest shade with WCAG AA contrast (4.5:1)
+  -s, --scale <n>        Render scale, 1.5 to 8 (default 3)
+  -m, --margin <0-50>    Margin as a percentage of the page width (default 0)
+  -e, --encoding <type>  Page images as png, jpeg, indexed, mask or separation (default png)
+  -q, --quality <1-100>  JPEG quality for --encoding jpeg (default 80), WebP/AVIF quality for --images (default 85)
+      --colors <2-256>   Palette size for --encoding indexed (default 16)
+      --spot <name>      Spot ink for --encoding separation, from the library (see --list-spots)
+      --cmyk <c,m,y,k>   Ink build in percent for --encoding separation; without --spot, prints process CMYK
+      --list-spots       List the spot ink library and exit
+      --images <format>  Write page images instead of a PDF: png, webp or avif (ZIP) or tiff (multi-page)
+      --name-template <t>
+                         File names inside the ZIP, from {name}, {theme}, {page} and {index}
+                         (default "{name}_p{page:03}_{theme}"); without {page} or {index}, _{index} is appended
+  -p, --pages <range>    Pages to export, in order, e.g. "1-5, 9, 12-" (default all)
+  -o, --out-dir <dir>    Output directory (default: next to each input)
+  -h, --help             Show this help
+`;
+
+interface CliOptions {
+  params: ColorizeParams;
+  scale: number;
+  marginPercent: number;
+  encoding: PageEncodingOptions;
+  // Set to write an image archive instead of a PDF
+  images?: ImageArchiveOptions;
+  // Page range text; parsed per file since page counts differ
+  pages?: string;
+  outDir?: string;
+}
+
+// Node has no fetch for file paths, so pdf.js reads fonts and CMaps from the installed package.
+const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json'));
+
+const parseNumber = (value: string | undefined, fallback: number, name: string, min: number, max: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`--${name} must be a number between ${min} and ${max}`);
+  }
+  return parsed;
+};
+
+const parseColor = (value: string | undefined): string => {
+  if (value === undefined) return '#000000';
+  const hex = value.startsWith('#') ? value : `#${value}`;
+  if (!/^#[0-9a-f]{6}$/i.test(hex)) throw new Error('--color must be a hex color such as #1E3A8A');
+  return hex.toLowerCase();
+};
+
+// --spot picks a named separation (its CMYK build replaced by --cmyk when given); --cmyk alone prints process CMYK.
+const parsePrintInk = (spotName: string | undefined, cmykValue: string | undefined): PrintInk => {
+  const spot = spotName === undefined ? DEFAULT_PRINT_INK.spot : findSpotColor(spotName);
+  if (!spot) throw new Error(`Unknown spot color "${spotName}"; see --list-spots`);
+  if (cmykValue === undefined) return { mode: 'spot', spot };
+
+  const cmyk = cmykValue.split(',').map(part => Number(part.trim()));
+  if (cmyk.length !== 4 || cmyk.some(value => !Number.isFinite(value) || value < 0 || value > 100)) {
+    throw new Error('--cmyk must be four percentages such as 100,66,0,2');
+  }
+  return spotName === undefined
+    ? { mode: 'cmyk', spot: { name: 'Process', cmyk: cmyk as Cmyk } }
+    : { mode: 'spot', spot: { name: spot.name, cmyk: cmyk as Cmyk } };
+};
+
+const IMAGE_ARCHIVE_FORMATS: ImageArchiveFormat[] = ['png', 'webp', 'avif', 'tiff'];
+
+const parseImageArchive = (format: string | undefined, template: string | undefined, quality: number): ImageArchiveOptions | undefined => {
+  if (format === undefined) return undefined;
+  if (!IMAGE_ARCHIVE_FORMATS.includes(format as ImageArchiveFormat)) {
+    throw new Error(`--images must be one of ${IMAGE_ARCHIVE_FORMATS.join(', ')}`);
+  }
+  return { format: format as ImageArchiveFormat, fileNameTemplate: template ?? DEFAULT_IMAGE_ARCHIVE.fileNameTemplate, quality };
+};
+
+const PAGE_ENCODINGS: PageEncoding[] = ['png', 'jpeg', 'indexed', 'mask', 'separation'];
+
+const parseEncoding = (value: string | undefined): PageEncoding => {
+  if (value === undefined) return DEFAULT_PAGE_ENCODING.encoding;
+  if (!PAGE_ENCODINGS.includes(value as PageEncoding)) {
+    throw new Error(`--encoding must be one of ${PAGE_ENCODINGS.join(', ')}`);
+  }
+  return value as PageEncoding;
+};
+
+// Loaded lazily so the canvas globals are in place before pdf.js initializes.
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs');
+
+const colorizeFile = async (pdfjsLib: PdfJs, input: string, options: CliOptions): Promise<string> => {
+  const data = new Uint8Array(await readFile(input));
+  const pdfDoc = await pdfjsLib.getDocument({
+    data,
+    canvasFactory: createPdfCanvasFactory(nodeCanvasBackend),
+    standardFontDataUrl: path.join(pdfjsRoot, 'standard_fonts/'),
+    cMapUrl: path.join(pdfjsRoot, 'cmaps/'),
+    cMapPacked: true,
+  }).promise;
+
+  try {
+    const pageNumbers = options.pages
+      ? parsePageRange(options.pages, pdfDoc.numPages)
+      : Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1);
+
+    const pages: RasterPdfPage[] = [];
+    for (const [index, pageNumber] of pageNumbers.entries()) {
+      pages.push(await renderColorizedPage(pdfDoc, pageNumber, options.scale, options.params, nodeCanvasBackend));
+      process.stdout.write(`\r  ${path.basename(input)}: page ${index + 1} of ${pageNumbers.length}`);
+    }
+    process.stdout.write('\n');
+
+    const outDir = options.outDir ?? path.dirname(input);
+    await mkdir(outDir, { recursive: true });
+
+    if (options.images) {
+      const naming = { name: path.basename(input, path.extname(input)), theme: options.params.targetColorHex.slice(1) };
+      const archive = await buildImageArchive(pages, options.images, naming, nodeCanvasBackend);
+      const archivePath = path.join(outDir, archive.fileName);
+      await writeFile(archivePath, archive.data);
+      return archivePath;
+    }
+
+    const output = path.join(outDir, `chromapdf_${path.basename(input)}`);
+    const metadata = await readPdfMetadata(pdfDoc);
+    const bytes = await buildRasterPdf(
+      pages,
+      { marginPercent: options.marginPercent, metadata, encoding: options.encoding },
+      nodeCanvasBackend
+    );
+    await writeFile(output, bytes);
+    return output;
+  } finally {
+    await pdfDoc.destroy();
+  }
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      color: { type: 'string', short: 'c' },
+      boldness: { type: 'string', short: 'b' },
+      'auto-boldness': { type: 'boolean' },
+      'smooth-edges': { type: 'boolean' },
+      'enforce-aa': { type: 'boolean' },
+      scale: { type: 'string', short: 's' },
+      margin: { type: 'string', short: 'm' },
+      encoding: { type: 'string', short: 'e' },
+      quality: { type: 'string', short: 'q' },
+      colors: { type: 'string' },
+      spot: { type: 'string' },
+      cmyk: { type: 'string' },
+      'list-spots': { type: 'boolean' },
+      images: { type: 'string' },
+      'name-template': { type: 'string' },
+      pages: { type: 'string', short: 'p' },
+      'out-dir': { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values['list-spots']) {
+    for (const spot of SPOT_COLOR_LIBRARY) console.log(`${spot.name.padEnd(26)} CMYK ${spot.cmyk.join(',')}`);
+    return;
+  }
+
+  if (values.help || positionals.length === 0) {
+    process.stdout.write(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const options: CliOptions = {
+    params: {
+      targetColorHex: parseColor(values.color),
+      boldness: parseNumber(values.boldness, 60, 'boldness', 0, 100),
+      minContrast: values['enforce-aa'] ? WCAG_AA_CONTRAST : undefined,
+      autoBoldness: values['auto-boldness'],
+      smoothEdges: values['smooth-edges'],
+    },
+    scale: parseNumber(values.scale, 3, 'scale', 1.5, 8),
+    marginPercent: parseNumber(values.margin, 0, 'margin', 0, 50),
+    encoding: {
+      encoding: parseEncoding(values.encoding),
+      jpegQuality: parseNumber(values.quality, DEFAULT_PAGE_ENCODING.jpegQuality, 'quality', 1, 100),
+      paletteSize: Math.round(
+        parseNumber(values.colors, DEFAULT_PAGE_ENCODING.paletteSize, 'colors', MIN_PALETTE_SIZE, MAX_PALETTE_SIZE)
+      ),
+      printInk: parsePrintInk(values.spot, values.cmyk),
+    },
+    images: parseImageArchive(
+      values.images,
+      values['name-template'],
+      parseNumber(values.quality, DEFAULT_IMAGE_ARCHIVE.quality, 'quality', 1, 100)
+    ),
+    pages: values.pages,
+    outDir: values['out-dir'],
+  };
+
+  const inputs = await expandInputs(positionals);
+  if (inputs.length === 0) throw new Error('No PDF files matched the given inputs');
+
+  installCanvasGlobals();
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // Files are processed one at a time; pages at high scales already take a lot of memory.
+  let failed = 0;
+  for (const input of inputs) {
+    try {
+      const output = await colorizeFile(pdfjsLib, input, options);
+      console.log(`  -> ${output}`);
+    } catch (e) {
+      failed++;
+      console.error(`\nFailed to colorize ${input}:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  console.log(`Colorized ${inputs.length - failed} of ${inputs.length} file(s).`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+});
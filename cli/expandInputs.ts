@@ -0,0 +1,83 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const GLOB_CHARS = /[*?[]/;
+
+// Translates a glob to a regex over '/'-separated paths: ** spans directories, * and ? do not.
+const globToRegExp = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches zero directories
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) files.push(...(await walk(full)));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+};
+
+/**
+ * Resolves CLI inputs to PDF paths. Plain paths are passed through, directories
+ * contribute the PDFs inside them, and globs (*, **, ?, [abc]) are matched by walking
+ * the directory before the first wildcard, for shells that do not expand them.
+ */
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const results = new Set<string>();
+
+  for (const input of inputs) {
+    const normalized = input.split(path.sep).join('/');
+
+    if (!GLOB_CHARS.test(normalized)) {
+      const info = await stat(input).catch(() => null);
+      if (!info) throw new Error(`Input not found: ${input}`);
+      if (info.isDirectory()) {
+        (await walk(input)).filter(file => file.toLowerCase().endsWith('.pdf')).forEach(file => results.add(file));
+      } else {
+        results.add(input);
+      }
+      continue;
+    }
+
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex(segment => GLOB_CHARS.test(segment));
+    const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    const pattern = globToRegExp(segments.slice(firstGlob).join('/'));
+
+    const files = await walk(base).catch(() => []);
+    for (const file of files) {
+      const relative = path.relative(base, file).split(path.sep).join('/');
+      if (pattern.test(relative)) results.add(file);
+    }
+  }
+
+  return Array.from(results).sort();
+};
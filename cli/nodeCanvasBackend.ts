@@ -0,0 +1,47 @@
+import { createCanvas, DOMMatrix, ImageData, loadImage, Path2D, type Canvas } from '@napi-rs/canvas';
+import type { BackendCanvas, CanvasBackend } from '../services/canvasBackend';
+import type { PixelBuffer } from '../services/colorizeCore';
+
+const dataUrlToBuffer = (image: string | Uint8Array): Buffer =>
+  typeof image === 'string' ? Buffer.from(image.slice(image.indexOf(',') + 1), 'base64') : Buffer.from(image);
+
+const toCanvas = (image: PixelBuffer): Canvas => {
+  const canvas = createCanvas(image.width, image.height);
+  canvas.getContext('2d').putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvas;
+};
+
+// @napi-rs/canvas ships prebuilt binaries, so the CLI needs no native toolchain.
+export const nodeCanvasBackend: CanvasBackend = {
+  createCanvas: (width, height) => createCanvas(width, height) as unknown as BackendCanvas,
+
+  encodePng: async (canvas) => (canvas as unknown as Canvas).encode('png'),
+
+  decodeImage: async (image) => {
+    const decoded = await loadImage(dataUrlToBuffer(image));
+    const canvas = createCanvas(decoded.width, decoded.height);
+    const ctx = canvas.getContext('2d');
+    ctx.drawImage(decoded, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  },
+
+  encodeJpeg: async (image, quality) => toCanvas(image).encode('jpeg', Math.round(quality * 100)),
+
+  encodeImage: async (image, type, quality) => {
+    const canvas = toCanvas(image);
+    if (type === 'image/webp') return canvas.encode('webp', Math.round(quality * 100));
+    if (type === 'image/avif') return canvas.encode('avif', { quality: Math.round(quality * 100) });
+    return canvas.encode('png');
+  },
+};
+
+/**
+ * pdf.js expects the DOM geometry classes as globals when it is loaded.
+ * Must run before pdfjs-dist is imported.
+ */
+export const installCanvasGlobals = () => {
+  const globals = globalThis as Record<string, unknown>;
+  globals.DOMMatrix ??= DOMMatrix;
+  globals.Path2D ??= Path2D;
+  globals.ImageData ??= ImageData;
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ConfusablePair, CVD_LABELS, CVD_MATRICES, CVD_TYPES, CvdType } from '../services/colorVision';
+
+// feColorMatrix works in linear RGB by default, which is where the matrices apply.
+const toFilterValues = (m: number[]) =>
+  [0, 1, 2].map(row => `${m[row * 3]} ${m[row * 3 + 1]} ${m[row * 3 + 2]} 0 0`).join(' ') + ' 0 0 0 1 0';
+
+// CSS filter for an element shown as seen with the given deficiency; needs CvdFilterDefs on the page.
+export const cvdFilterCss = (type: CvdType | null): string | undefined => (type ? `url(#cvd-${type})` : undefined);
+
+// Hidden SVG holding one filter per deficiency
+export const CvdFilterDefs: React.FC = () => (
+  <svg width="0" height="0" className="absolute" aria-hidden="true">
+    <defs>
+      {CVD_TYPES.map(type => (
+        <filter key={type} id={`cvd-${type}`} colorInterpolationFilters="linearRGB">
+          <feColorMatrix type="matrix" values={toFilterValues(CVD_MATRICES[type])} />
+        </filter>
+      ))}
+    </defs>
+  </svg>
+);
+
+const CONE_NAMES: Record<CvdType, string> = { protanopia: 'red', deuteranopia: 'green', tritanopia: 'blue' };
+
+interface CvdSelectProps {
+  value: CvdType | null;
+  onChange: (type: CvdType | null) => void;
+}
+
+export const CvdSelect: React.FC<CvdSelectProps> = ({ value, onChange }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-500" title="Preview only; exports are not affected">
+    <i className="fas fa-eye"></i>
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange((e.target.value || null) as CvdType | null)}
+      className="px-1 h-8 border border-gray-200 rounded bg-white"
+    >
+      <option value="">Normal vision</option>
+      {CVD_TYPES.map(type => (
+        <option key={type} value={type}>{CVD_LABELS[type]} (no {CONE_NAMES[type]} cones)</option>
+      ))}
+    </select>
+  </label>
+);
+
+const Swatch: React.FC<{ hex: string }> = ({ hex }) => (
+  <span className="inline-block w-3 h-3 rounded-sm border border-gray-300 align-middle mr-1" style={{ background: hex }}></span>
+);
+
+export const CvdWarnings: React.FC<{ pairs: ConfusablePair[] }> = ({ pairs }) => {
+  if (pairs.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 text-amber-900 rounded-lg px-3 py-2 text-xs flex flex-col gap-1">
+      <span className="font-semibold">
+        <i className="fas fa-low-vision mr-2 text-amber-500"></i>
+        Some colors are hard to tell apart with color blindness
+      </span>
+      <ul className="flex flex-col gap-0.5">
+        {pairs.map(pair => (
+          <li key={`${pair.type}-${pair.a.hex}-${pair.b.hex}`}>
+            <Swatch hex={pair.a.hex} />{pair.a.label} and <Swatch hex={pair.b.hex} />{pair.b.label}
+            <span className="text-amber-700"> · {CVD_LABELS[pair.type]}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  // CSS filter for the after image only (e.g. a color vision simulation)
+  afterFilter?: string;
+}
+
+/**
+ * Before/after images stacked in one frame, split by a draggable divider:
+ * before on the left of it, after on the right. The after image is stretched to the
+ * before image's box, so a low-resolution draft lines up with the full-size original.
+ */
+export const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel = 'Before', afterLabel = 'After', afterFilter }) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [split, setSplit] = useState(50);
+
+  const moveTo = (clientX: number) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    // The divider owns the drag; without this the pane would start panning
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    moveTo(event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) moveTo(event.clientX);
+  };
+
+  return (
+    <div ref={frameRef} className="relative w-full shadow-lg">
+      <img src={beforeUrl} alt={beforeLabel} className="block w-full h-auto" draggable={false} />
+      <img
+        src={afterUrl}
+        alt={afterLabel}
+        className="absolute inset-0 w-full h-full"
+        style={{ clipPath: `inset(0 0 0 ${split}%)`, filter: afterFilter }}
+        draggable={false}
+      />
+
+      <div
+        className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+        style={{ left: `${split}%`, touchAction: 'none' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-0.5 h-full bg-white shadow-[0_0_0_1px_rgba(79,70,229,0.6)]"></div>
+        <div className="absolute top-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white border border-indigo-300 shadow flex items-center justify-center text-indigo-600 text-[10px]">
+          <i className="fas fa-arrows-alt-h"></i>
+        </div>
+      </div>
+
+      <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded bg-black/50 text-white text-[10px] pointer-events-none">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-black/50 text-white text-[10px] pointer-events-none">{afterLabel}</span>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { hexToRgb, rgbToHex } from '../services/colorizeCore';
+import {
+  ContrastLevel,
+  contrastRatio,
+  getContrastLevel,
+  nearestCompliantColor,
+  WCAG_AA_CONTRAST,
+  WCAG_AAA_CONTRAST,
+} from '../services/contrast';
+
+const LEVEL_CLASSES: Record<ContrastLevel, string> = {
+  AAA: 'bg-green-100 text-green-800',
+  AA: 'bg-green-50 text-green-700',
+  'AA Large': 'bg-amber-100 text-amber-800',
+  Fail: 'bg-red-100 text-red-700',
+};
+
+const formatRatio = (ratio: number) => `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`;
+
+interface ContrastBadgeProps {
+  inkHex: string;
+  paperHex: string;
+}
+
+// Compact pass/fail badge for the ink on the paper
+export const ContrastBadge: React.FC<ContrastBadgeProps> = ({ inkHex, paperHex }) => {
+  const ratio = contrastRatio(hexToRgb(inkHex), hexToRgb(paperHex));
+  const level = getContrastLevel(ratio);
+
+  return (
+    <span
+      className={`px-2 py-0.5 rounded-full text-[10px] font-semibold whitespace-nowrap ${LEVEL_CLASSES[level]}`}
+      title={`Contrast ${formatRatio(ratio)} between ink and paper. Body text needs ${WCAG_AA_CONTRAST}:1 for AA and ${WCAG_AAA_CONTRAST}:1 for AAA.`}
+    >
+      {level === 'Fail' ? <i className="fas fa-times mr-1"></i> : <i className="fas fa-check mr-1"></i>}
+      {level} · {formatRatio(ratio)}
+    </span>
+  );
+};
+
+interface ContrastPanelProps {
+  // The ink as chosen, before any enforcement
+  inkHex: string;
+  paperHex: string;
+  enforceAA: boolean;
+  onEnforceAAChange: (enforce: boolean) => void;
+  onUseShade: (hex: string) => void;
+}
+
+export const ContrastPanel: React.FC<ContrastPanelProps> = ({ inkHex, paperHex, enforceAA, onEnforceAAChange, onUseShade }) => {
+  const ink = hexToRgb(inkHex);
+  const paper = hexToRgb(paperHex);
+  const ratio = contrastRatio(ink, paper);
+
+  // Offered only for the levels the ink misses
+  const suggestions = ([['AA', WCAG_AA_CONTRAST], ['AAA', WCAG_AAA_CONTRAST]] as [string, number][])
+    .filter(([, target]) => ratio < target)
+    .map(([label, target]) => {
+      const shade = nearestCompliantColor(ink, paper, target);
+      return { label, hex: rgbToHex(shade), ratio: contrastRatio(shade, paper), reached: contrastRatio(shade, paper) >= target };
+    })
+    .filter(suggestion => suggestion.reached);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs">
+      <span className="flex items-center gap-2">
+        <span className="w-6 h-6 rounded border border-gray-200 flex items-center justify-center font-bold" style={{ background: paperHex, color: inkHex }}>
+          A
+        </span>
+        <ContrastBadge inkHex={inkHex} paperHex={paperHex} />
+      </span>
+
+      {suggestions.map(suggestion => (
+        <button
+          key={suggestion.label}
+          onClick={() => onUseShade(suggestion.hex)}
+          className="flex items-center gap-1.5 px-2 py-1 rounded border border-gray-200 hover:border-indigo-400 hover:text-indigo-700"
+          title={`Nearest shade of the same hue with ${formatRatio(suggestion.ratio)} contrast`}
+        >
+          <span className="w-3.5 h-3.5 rounded-sm border border-gray-200" style={{ background: suggestion.hex }}></span>
+          Use <span className="font-mono uppercase">{suggestion.hex}</span> for {suggestion.label}
+        </button>
+      ))}
+
+      <label className="flex items-center gap-2 cursor-pointer ml-auto" title="Darkens (or, on dark paper, lightens) ink and region colors below AA while colorizing">
+        <input
+          type="checkbox"
+          checked={enforceAA}
+          onChange={(e) => onEnforceAAChange(e.target.checked)}
+          className="accent-indigo-600"
+        />
+        Enforce AA ({WCAG_AA_CONTRAST}:1) on every page
+      </label>
+    </div>
+  );
+};
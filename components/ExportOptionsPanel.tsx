@@ -0,0 +1,110 @@
+import React from 'react';
+import { DEFAULT_PRINT_INK, MAX_PALETTE_SIZE, MIN_PALETTE_SIZE, PageEncoding, PageEncodingOptions } from '../services/pageEncoding';
+import { SpotColorPicker } from './SpotColorPicker';
+
+interface ExportOptionsPanelProps {
+  options: PageEncodingOptions;
+  onChange: (options: PageEncodingOptions) => void;
+  // null while there is nothing to estimate yet
+  estimatedBytes: number | null;
+  isEstimating: boolean;
+  onUseInkColor?: (hex: string) => void;
+}
+
+const ENCODING_LABELS: Record<PageEncoding, string> = {
+  png: 'PNG (lossless, largest)',
+  jpeg: 'JPEG (lossy)',
+  indexed: 'Indexed palette PNG',
+  mask: '1-bit ink mask + fill (smallest)',
+  separation: 'Print: spot / CMYK separation',
+};
+
+const ENCODING_HINTS: Record<PageEncoding, string> = {
+  png: 'Keeps every pixel exactly as rendered.',
+  jpeg: 'Good for pages with photos; soft edges around text at low quality.',
+  indexed: 'Reduces each page to a few colors. Ideal for single-ink and palette themes.',
+  mask: 'Stores only which pixels are ink and paints them in the ink color. Drops gradients and photos.',
+  separation: 'Prints the ink as one plate, its tint following the colorization; the paper stays unprinted. Single-ink pages only: palettes, text rule colors and photos are refused.',
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const ExportOptionsPanel: React.FC<ExportOptionsPanelProps> = ({ options, onChange, estimatedBytes, isEstimating, onUseInkColor }) => {
+  const update = (patch: Partial<PageEncodingOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+      <div className="flex flex-col gap-1">
+        <div className="flex items-center bg-gray-50 rounded-lg border border-gray-200 px-2 h-8">
+          <select
+            value={options.encoding}
+            onChange={(e) => update({ encoding: e.target.value as PageEncoding })}
+            className="text-xs bg-transparent border-none outline-none focus:ring-0 text-gray-700 cursor-pointer w-full"
+          >
+            {(Object.keys(ENCODING_LABELS) as PageEncoding[]).map(encoding => (
+              <option key={encoding} value={encoding}>{ENCODING_LABELS[encoding]}</option>
+            ))}
+          </select>
+        </div>
+        <span className="text-[10px] text-gray-400">{ENCODING_HINTS[options.encoding]}</span>
+      </div>
+
+      {options.encoding === 'jpeg' && (
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between text-xs">
+            <span>Quality</span>
+            <span className="text-indigo-600 font-bold">{options.jpegQuality}</span>
+          </div>
+          <input
+            type="range"
+            min="10"
+            max="100"
+            step="5"
+            value={options.jpegQuality}
+            onChange={(e) => update({ jpegQuality: Number(e.target.value) })}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+        </div>
+      )}
+
+      {options.encoding === 'indexed' && (
+        <div className="flex flex-col gap-1">
+          <span className="text-xs">Colors per page</span>
+          <select
+            value={options.paletteSize}
+            onChange={(e) => update({ paletteSize: Number(e.target.value) })}
+            className="text-xs bg-gray-50 rounded-lg border border-gray-200 px-2 h-8 text-gray-700 cursor-pointer"
+            title="Fewer colors give smaller files; 2 and 4 color pages pack several pixels per byte."
+          >
+            {[2, 4, 8, 16, 32, 64, 128, 256]
+              .filter(size => size >= MIN_PALETTE_SIZE && size <= MAX_PALETTE_SIZE)
+              .map(size => <option key={size} value={size}>{size} colors</option>)}
+          </select>
+        </div>
+      )}
+
+      {options.encoding === 'separation' && (
+        <div className="md:col-span-2">
+          <SpotColorPicker
+            value={options.printInk ?? DEFAULT_PRINT_INK}
+            onChange={(printInk) => update({ printInk })}
+            onUseAsInk={onUseInkColor}
+          />
+        </div>
+      )}
+
+      <div className={`flex items-center gap-2 text-xs text-gray-600 ${
+        options.encoding === 'png' || options.encoding === 'mask' ? 'md:col-span-2' : options.encoding === 'separation' ? 'md:col-span-3' : ''
+      }`}>
+        <i className={`fas ${isEstimating ? 'fa-circle-notch fa-spin' : 'fa-file-pdf'} text-gray-400`}></i>
+        {estimatedBytes === null
+          ? <span className="text-gray-400">Colorize pages to see the estimated file size</span>
+          : <span>Estimated PDF size: <span className="font-bold text-indigo-600">~{formatBytes(estimatedBytes)}</span></span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React from 'react';
+import type { QueuedFile } from '../services/fileQueue';
+import { formatBytes } from './ExportOptionsPanel';
+
+interface FileQueueProps {
+  items: QueuedFile[];
+  isRunning: boolean;
+  // Another job (a batch run, an export) is using the pipeline
+  disabled?: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onRemove: (id: string) => void;
+  onDownload: (id: string) => void;
+  onMerge: () => void;
+  onClear: () => void;
+  onAddFiles: (files: File[]) => void;
+}
+
+const StatusIcon: React.FC<{ item: QueuedFile }> = ({ item }) => {
+  switch (item.status) {
+    case 'processing':
+      return <i className="fas fa-circle-notch fa-spin text-indigo-500"></i>;
+    case 'done':
+      return <i className="fas fa-check-circle text-green-500"></i>;
+    case 'failed':
+      return <i className="fas fa-exclamation-circle text-red-500" title={item.error}></i>;
+    default:
+      return <i className="far fa-clock text-gray-300"></i>;
+  }
+};
+
+const statusText = (item: QueuedFile) => {
+  switch (item.status) {
+    case 'processing':
+      return item.progress ? `Page ${item.progress.current} of ${item.progress.total}` : 'Loading…';
+    case 'done':
+      return item.result ? `Done · ${formatBytes(item.result.size)}` : 'Done';
+    case 'failed':
+      return item.error || 'Failed';
+    default:
+      return `Waiting · ${formatBytes(item.file.size)}`;
+  }
+};
+
+export const FileQueue: React.FC<FileQueueProps> = ({
+  items,
+  isRunning,
+  disabled,
+  onRun,
+  onStop,
+  onRemove,
+  onDownload,
+  onMerge,
+  onClear,
+  onAddFiles,
+}) => {
+  const toRun = items.filter(item => item.status === 'waiting' || item.status === 'failed').length;
+  const doneCount = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="flex flex-col gap-2 bg-white rounded-xl border border-gray-200 px-3 py-2 text-xs text-gray-600">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-medium">
+          File queue · {doneCount} of {items.length} done
+          <span className="ml-2 font-normal text-gray-400">Each file uses the document settings above</span>
+        </span>
+        <div className="flex items-center gap-3">
+          <label className={`text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer ${isRunning ? 'opacity-50 pointer-events-none' : ''}`}>
+            <i className="fas fa-plus mr-1"></i>Add files
+            <input
+              type="file"
+              accept="application/pdf"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                onAddFiles(Array.from(e.target.files ?? []));
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {isRunning ? (
+            <button onClick={onStop} className="text-red-600 hover:text-red-800 font-medium">
+              <i className="fas fa-stop mr-1"></i>Stop
+            </button>
+          ) : (
+            <button
+              onClick={onRun}
+              disabled={disabled || toRun === 0}
+              className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <i className="fas fa-play mr-1"></i>Colorize {toRun} file{toRun === 1 ? '' : 's'}
+            </button>
+          )}
+          <button
+            onClick={onMerge}
+            disabled={disabled || isRunning || doneCount < 2}
+            className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            title="One PDF with a bookmark per file, in queue order"
+          >
+            <i className="fas fa-object-group mr-1"></i>Download merged
+          </button>
+          <button
+            onClick={onClear}
+            disabled={isRunning}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center gap-3 py-1.5">
+            <StatusIcon item={item} />
+            <span className="flex-1 min-w-0 truncate text-gray-800" title={item.file.name}>{item.file.name}</span>
+            <span className={`flex-shrink-0 ${item.status === 'failed' ? 'text-red-600' : 'text-gray-400'} max-w-[40%] truncate`}>
+              {statusText(item)}
+            </span>
+            <button
+              onClick={() => onDownload(item.id)}
+              disabled={!item.result}
+              className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Download this file"
+            >
+              <i className="fas fa-download"></i>
+            </button>
+            <button
+              onClick={() => onRemove(item.id)}
+              disabled={isRunning}
+              className="p-1 text-gray-300 hover:text-red-600 disabled:opacity-30"
+              title="Remove from queue"
+            >
+              <i className="fas fa-times"></i>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
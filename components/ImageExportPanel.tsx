@@ -0,0 +1,88 @@
+import React from 'react';
+import { Button } from './Button';
+import { FileNameFields, formatFileName, ImageArchiveFormat, ImageArchiveOptions, uniqueFileNameTemplate } from '../services/imageArchive';
+
+interface ImageExportPanelProps {
+  options: ImageArchiveOptions;
+  onChange: (options: ImageArchiveOptions) => void;
+  // Fields for the first exported page, used to preview the file name
+  example: FileNameFields;
+  pageCount: number;
+  // null while no export is running
+  progress: { done: number; total: number } | null;
+  onDownload: () => void;
+}
+
+const FORMAT_LABELS: Record<ImageArchiveFormat, string> = {
+  png: 'ZIP of PNG (lossless)',
+  webp: 'ZIP of WebP (small, web)',
+  avif: 'ZIP of AVIF (smallest, where supported)',
+  tiff: 'Multi-page TIFF',
+};
+
+export const ImageExportPanel: React.FC<ImageExportPanelProps> = ({ options, onChange, example, pageCount, progress, onDownload }) => {
+  const update = (patch: Partial<ImageArchiveOptions>) => onChange({ ...options, ...patch });
+  const isLossy = options.format === 'webp' || options.format === 'avif';
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-start">
+      <div className="flex items-center bg-gray-50 rounded-lg border border-gray-200 px-2 h-8">
+        <select
+          value={options.format}
+          onChange={(e) => update({ format: e.target.value as ImageArchiveFormat })}
+          className="text-xs bg-transparent border-none outline-none focus:ring-0 text-gray-700 cursor-pointer w-full"
+        >
+          {(Object.keys(FORMAT_LABELS) as ImageArchiveFormat[]).map(format => (
+            <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+          ))}
+        </select>
+      </div>
+
+      {options.format === 'tiff' ? (
+        <span className="text-[10px] text-gray-400 self-center">One file with every page, at its print resolution.</span>
+      ) : (
+        <div className="flex flex-col gap-1">
+          <input
+            type="text"
+            value={options.fileNameTemplate}
+            onChange={(e) => update({ fileNameTemplate: e.target.value })}
+            className="text-xs bg-gray-50 rounded-lg border border-gray-200 px-2 h-8 font-mono text-gray-700"
+            title="Fields: {name}, {theme}, {page}, {index}; {page:03} pads to three digits. Without {page} or {index}, _{index} is appended."
+            spellCheck={false}
+          />
+          <span className="text-[10px] text-gray-400 truncate">
+            e.g. {formatFileName(uniqueFileNameTemplate(options.fileNameTemplate), example)}.{options.format}
+          </span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        {isLossy && (
+          <label className="flex items-center gap-2 text-xs flex-1">
+            Quality
+            <input
+              type="range"
+              min="10"
+              max="100"
+              step="5"
+              value={options.quality}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <span className="text-indigo-600 font-bold w-6">{options.quality}</span>
+          </label>
+        )}
+        <Button
+          variant="secondary"
+          onClick={onDownload}
+          disabled={pageCount === 0 || progress !== null}
+          className="text-xs h-8 px-3 ml-auto"
+          title={pageCount === 0 ? 'Colorize pages first' : `Export ${pageCount} page(s)`}
+        >
+          <i className={`fas ${progress ? 'fa-circle-notch fa-spin' : 'fa-file-archive'}`}></i>
+          <span className="ml-2">{progress ? `${progress.done} / ${progress.total}` : 'Download images'}</span>
+        </Button>
+      </div>
+    </div>
+  );
+};
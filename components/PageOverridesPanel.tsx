@@ -0,0 +1,132 @@
+import React from 'react';
+import type { ToneMode } from '../services/adaptiveThreshold';
+import { hasPageOverrides, PageOverrideKey, PageOverrides } from '../services/pageOverrides';
+
+interface PageOverridesPanelProps {
+  pageNumber: number;
+  overrides: PageOverrides | undefined;
+  // Document-wide values, shown for fields the page does not override and used to seed new overrides
+  defaults: Required<PageOverrides>;
+  onChange: (patch: PageOverrides) => void;
+  onClear: () => void;
+}
+
+const FIELD_LABELS: Record<PageOverrideKey, string> = {
+  color: 'Ink color',
+  boldness: 'Boldness',
+  marginPercent: 'Margin',
+  toneMode: 'Tone mapping',
+  preserveColorPhotos: 'Keep color photos',
+};
+
+const FIELD_ORDER: PageOverrideKey[] = ['color', 'boldness', 'marginPercent', 'toneMode', 'preserveColorPhotos'];
+
+export const PageOverridesPanel: React.FC<PageOverridesPanelProps> = ({ pageNumber, overrides, defaults, onChange, onClear }) => {
+  const isCustom = hasPageOverrides(overrides);
+
+  const renderInput = (key: PageOverrideKey, enabled: boolean) => {
+    const value = { ...defaults, ...overrides };
+    const disabledClass = enabled ? '' : 'opacity-40 pointer-events-none';
+
+    switch (key) {
+      case 'color':
+        return (
+          <span className={`flex items-center gap-2 ${disabledClass}`}>
+            <input
+              type="color"
+              value={value.color}
+              onChange={(e) => onChange({ color: e.target.value })}
+              className="w-6 h-6 rounded border border-gray-200 cursor-pointer p-0"
+            />
+            <span className="font-mono uppercase">{value.color}</span>
+          </span>
+        );
+      case 'boldness':
+        return (
+          <span className={`flex items-center gap-2 flex-1 ${disabledClass}`}>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={value.boldness}
+              onChange={(e) => onChange({ boldness: Number(e.target.value) })}
+              className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            />
+            <span className="w-8 text-right text-indigo-600 font-bold">{value.boldness}%</span>
+          </span>
+        );
+      case 'marginPercent':
+        return (
+          <span className={`flex items-center gap-1 ${disabledClass}`}>
+            <input
+              type="number"
+              min="0"
+              max="50"
+              value={value.marginPercent}
+              onChange={(e) => onChange({ marginPercent: Math.min(50, Math.max(0, Number(e.target.value))) })}
+              className="w-14 px-1 border border-gray-200 rounded text-center"
+            />
+            %
+          </span>
+        );
+      case 'toneMode':
+        return (
+          <select
+            value={value.toneMode}
+            onChange={(e) => onChange({ toneMode: e.target.value as ToneMode })}
+            className={`px-1 h-6 border border-gray-200 rounded bg-white ${disabledClass}`}
+          >
+            <option value="global">Global curve</option>
+            <option value="adaptive">Adaptive</option>
+          </select>
+        );
+      case 'preserveColorPhotos':
+        return (
+          <select
+            value={value.preserveColorPhotos ? 'keep' : 'recolor'}
+            onChange={(e) => onChange({ preserveColorPhotos: e.target.value === 'keep' })}
+            className={`px-1 h-6 border border-gray-200 rounded bg-white ${disabledClass}`}
+          >
+            <option value="keep">Keep untouched</option>
+            <option value="recolor">Recolor</option>
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 bg-white rounded-xl border border-gray-200 px-3 py-2 text-xs text-gray-600">
+      <div className="flex items-center justify-between">
+        <span className="font-medium flex items-center gap-2">
+          Page {pageNumber} settings
+          {isCustom && <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px] font-semibold">Custom</span>}
+        </span>
+        {isCustom ? (
+          <button onClick={onClear} className="text-indigo-600 hover:text-indigo-800 font-medium">
+            Use document settings
+          </button>
+        ) : (
+          <span className="text-gray-400">Document settings · tick a field to override it</span>
+        )}
+      </div>
+
+      {FIELD_ORDER.map(key => {
+        const enabled = overrides?.[key] !== undefined;
+        return (
+          <div key={key} className="flex items-center gap-3 min-h-[1.5rem]">
+            <label className="flex items-center gap-2 w-36 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onChange({ [key]: e.target.checked ? defaults[key] : undefined })}
+                className="accent-indigo-600"
+              />
+              {FIELD_LABELS[key]}
+            </label>
+            {renderInput(key, enabled)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { createPagePlan, formatPageRange, PagePlanEntry, parsePageRange, rotateBy } from '../services/pagePlan';
+
+interface PageStripProps {
+  numPages: number;
+  plan: PagePlanEntry[];
+  onChange: (plan: PagePlanEntry[]) => void;
+  // Thumbnail data URLs by source page number; missing ones show a placeholder
+  thumbnails: Map<number, string>;
+  currentPage: number;
+  onSelectPage: (pageNumber: number) => void;
+  colorizedPages: Set<number>;
+  // Pages with their own settings, marked on the thumbnail
+  customizedPages: Set<number>;
+  onDropBlankPages: () => void;
+  isDetectingBlanks: boolean;
+  disabled?: boolean;
+}
+
+export const PageStrip: React.FC<PageStripProps> = ({
+  numPages,
+  plan,
+  onChange,
+  thumbnails,
+  currentPage,
+  onSelectPage,
+  colorizedPages,
+  customizedPages,
+  onDropBlankPages,
+  isDetectingBlanks,
+  disabled = false,
+}) => {
+  const [rangeText, setRangeText] = useState('');
+  const [rangeError, setRangeError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Keep the field in sync with edits made on the strip itself
+  useEffect(() => {
+    setRangeText(formatPageRange(plan.map(entry => entry.pageNumber)));
+    setRangeError(null);
+  }, [plan]);
+
+  const applyRange = () => {
+    try {
+      // Pages already in the plan keep their rotation
+      const rotations = new Map(plan.map(entry => [entry.pageNumber, entry.rotation]));
+      onChange(parsePageRange(rangeText, numPages).map(pageNumber => ({ pageNumber, rotation: rotations.get(pageNumber) ?? 0 })));
+    } catch (e) {
+      setRangeError(e instanceof Error ? e.message : 'Invalid page range');
+    }
+  };
+
+  const moveEntry = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...plan];
+    const [entry] = next.splice(from, 1);
+    next.splice(from < to ? to - 1 : to, 0, entry);
+    onChange(next);
+  };
+
+  const updateEntry = (index: number, patch: Partial<PagePlanEntry>) => {
+    onChange(plan.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="font-medium uppercase tracking-wider text-gray-600">Pages</label>
+        <input
+          type="text"
+          value={rangeText}
+          onChange={(e) => setRangeText(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') applyRange(); }}
+          placeholder="1-5, 9, 12-"
+          disabled={disabled}
+          className={`flex-1 min-w-[10rem] px-2 h-8 bg-gray-50 border rounded-lg font-mono ${rangeError ? 'border-red-400' : 'border-gray-200'}`}
+          title={'Pages to colorize and export, in order. "12-" runs to the last page, "8-3" counts down.'}
+        />
+        <button
+          onClick={applyRange}
+          disabled={disabled}
+          className="px-3 h-8 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 font-medium text-gray-700 disabled:opacity-50"
+        >
+          Apply
+        </button>
+        <button
+          onClick={() => onChange(createPagePlan(numPages))}
+          disabled={disabled}
+          className="px-3 h-8 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 font-medium text-gray-700 disabled:opacity-50"
+          title="All pages in their original order, unrotated"
+        >
+          <i className="fas fa-undo mr-1"></i> Reset
+        </button>
+        <button
+          onClick={onDropBlankPages}
+          disabled={disabled || isDetectingBlanks}
+          className="px-3 h-8 rounded-lg border border-gray-200 bg-white hover:bg-gray-50 font-medium text-gray-700 disabled:opacity-50"
+        >
+          <i className={`fas ${isDetectingBlanks ? 'fa-circle-notch fa-spin' : 'fa-eraser'} mr-1`}></i> Drop blank pages
+        </button>
+        <span className="text-gray-400">{plan.length} of {numPages} pages</span>
+      </div>
+      {rangeError && <span className="text-xs text-red-600">{rangeError}</span>}
+
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {plan.map((entry, index) => (
+          <div
+            key={entry.pageNumber}
+            draggable={!disabled}
+            onDragStart={(e) => {
+              setDragIndex(index);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              const rect = e.currentTarget.getBoundingClientRect();
+              setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null && dropIndex !== null) moveEntry(dragIndex, dropIndex);
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setDropIndex(null);
+            }}
+            className={`relative flex-shrink-0 w-20 flex flex-col items-center gap-1 group ${dragIndex === index ? 'opacity-40' : ''}`}
+          >
+            {dropIndex === index && dragIndex !== null && <span className="absolute -left-2 top-0 bottom-6 w-0.5 bg-indigo-500 rounded"></span>}
+            {dropIndex === index + 1 && dragIndex !== null && index === plan.length - 1 && (
+              <span className="absolute -right-2 top-0 bottom-6 w-0.5 bg-indigo-500 rounded"></span>
+            )}
+            <button
+              onClick={() => onSelectPage(entry.pageNumber)}
+              className={`w-20 h-24 flex items-center justify-center rounded-md border-2 bg-white overflow-hidden cursor-grab ${
+                entry.pageNumber === currentPage ? 'border-indigo-500' : 'border-gray-200 hover:border-indigo-300'
+              }`}
+              title={`Page ${entry.pageNumber} · drag to reorder`}
+            >
+              {thumbnails.has(entry.pageNumber) ? (
+                <img
+                  src={thumbnails.get(entry.pageNumber)}
+                  alt={`Page ${entry.pageNumber}`}
+                  className="max-w-full max-h-full object-contain transition-transform"
+                  style={{ transform: `rotate(${entry.rotation}deg)` }}
+                  draggable={false}
+                />
+              ) : (
+                <i className="fas fa-file text-gray-200 text-2xl"></i>
+              )}
+            </button>
+            {colorizedPages.has(entry.pageNumber) && (
+              <span className="absolute top-1 left-1 w-4 h-4 rounded-full bg-indigo-600 text-white text-[8px] flex items-center justify-center" title="Colorized">
+                <i className="fas fa-check"></i>
+              </span>
+            )}
+            <div className="absolute top-1 right-1 flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => updateEntry(index, { rotation: rotateBy(entry.rotation, 90) })}
+                disabled={disabled}
+                className="w-5 h-5 rounded bg-white/90 border border-gray-200 text-gray-600 hover:text-indigo-600 text-[10px]"
+                title="Rotate 90° clockwise"
+              >
+                <i className="fas fa-redo"></i>
+              </button>
+              <button
+                onClick={() => onChange(plan.filter((_, i) => i !== index))}
+                disabled={disabled || plan.length === 1}
+                className="w-5 h-5 rounded bg-white/90 border border-gray-200 text-gray-600 hover:text-red-600 text-[10px] disabled:opacity-40"
+                title="Leave this page out"
+              >
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+            <span className="text-[10px] text-gray-500 flex items-center gap-1">
+              {customizedPages.has(entry.pageNumber) && (
+                <i className="fas fa-sliders-h text-amber-500" title="Has its own settings"></i>
+              )}
+              {entry.pageNumber}{entry.rotation ? ` · ${entry.rotation}°` : ''}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { ColorStop, MAX_PALETTE_STOPS, MIN_PALETTE_STOPS } from '../services/colorizeCore';
+
+interface PaletteEditorProps {
+  stops: ColorStop[];
+  onChange: (stops: ColorStop[]) => void;
+}
+
+// CSS gradient matching how the palette is applied: position 0 (ink) on the left, 1 (paper) on the right.
+export const paletteToCss = (stops: ColorStop[]): string => {
+  const sorted = [...stops].sort((a, b) => a.position - b.position);
+  return `linear-gradient(90deg, ${sorted.map(s => `${s.color} ${Math.round(s.position * 100)}%`).join(', ')})`;
+};
+
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ stops, onChange }) => {
+  const updateStop = (index: number, patch: Partial<ColorStop>) => {
+    onChange(stops.map((stop, i) => (i === index ? { ...stop, ...patch } : stop)));
+  };
+
+  const removeStop = (index: number) => {
+    onChange(stops.filter((_, i) => i !== index));
+  };
+
+  // New stops go halfway into the widest gap so they are immediately visible.
+  const addStop = () => {
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    let gapStart = 0;
+    let gapSize = 0;
+    for (let i = 0; i < sorted.length - 1; i++) {
+      const size = sorted[i + 1].position - sorted[i].position;
+      if (size > gapSize) {
+        gapSize = size;
+        gapStart = sorted[i].position;
+      }
+    }
+    onChange([...stops, { color: '#888888', position: Math.round((gapStart + gapSize / 2) * 100) / 100 }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="h-4 rounded-md border border-gray-200" style={{ background: paletteToCss(stops) }}></div>
+
+      {stops.map((stop, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="color"
+            value={stop.color}
+            onChange={(e) => updateStop(index, { color: e.target.value })}
+            className="w-7 h-7 rounded cursor-pointer border border-gray-200 bg-transparent"
+            title="Stop color"
+          />
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="1"
+            value={Math.round(stop.position * 100)}
+            onChange={(e) => updateStop(index, { position: Number(e.target.value) / 100 })}
+            className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            title="Position: 0% is the darkest ink, 100% is the paper"
+          />
+          <span className="text-[10px] text-gray-400 w-8 text-right">{Math.round(stop.position * 100)}%</span>
+          <button
+            onClick={() => removeStop(index)}
+            disabled={stops.length <= MIN_PALETTE_STOPS}
+            className="text-gray-400 hover:text-red-500 disabled:opacity-30 text-xs"
+            title="Remove stop"
+          >
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      ))}
+
+      <div className="flex justify-between text-[10px] text-gray-400">
+        <span>Ink</span>
+        <button
+          onClick={addStop}
+          disabled={stops.length >= MAX_PALETTE_STOPS}
+          className="text-indigo-600 hover:text-indigo-800 disabled:opacity-30 font-medium"
+        >
+          <i className="fas fa-plus mr-1"></i>Add stop
+        </button>
+        <span>Paper</span>
+      </div>
+    </div>
+  );
+};
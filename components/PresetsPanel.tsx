@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import type { ThemePreset } from '../services/themePresets';
+import { paletteToCss } from './PaletteEditor';
+
+interface PresetsPanelProps {
+  presets: ThemePreset[];
+  // Name of the preset the current settings came from, if they have not been changed since
+  activePreset: string | null;
+  onApply: (preset: ThemePreset) => void;
+  onSave: (name: string) => void;
+  onDelete: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const presetSwatch = (preset: ThemePreset) =>
+  preset.palette ? paletteToCss(preset.palette) : `linear-gradient(135deg, ${preset.inkHex} 50%, ${preset.paperHex} 50%)`;
+
+const describePreset = (preset: ThemePreset) =>
+  `${preset.colorMode === 'vector' ? 'Vector' : `Raster ${preset.resolutionScale}x`} · boldness ${preset.boldness}% · margin ${preset.marginPercent}%`;
+
+export const PresetsPanel: React.FC<PresetsPanelProps> = ({ presets, activePreset, onApply, onSave, onDelete, onExport, onImport }) => {
+  const [name, setName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const trimmed = name.trim();
+  const replaces = presets.some(preset => preset.name === trimmed);
+
+  const save = () => {
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      {presets.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <span
+              key={preset.name}
+              className={`flex items-center gap-2 pl-1 pr-1 py-1 rounded-full border ${activePreset === preset.name ? 'border-indigo-500 bg-indigo-50' : 'border-gray-200 bg-white'}`}
+            >
+              <button onClick={() => onApply(preset)} className="flex items-center gap-2" title={describePreset(preset)}>
+                <span className="w-5 h-5 rounded-full border border-gray-200" style={{ background: presetSwatch(preset) }}></span>
+                <span className="font-medium text-gray-700">{preset.name}</span>
+              </button>
+              <button onClick={() => onDelete(preset.name)} className="px-1 text-gray-300 hover:text-red-600" title="Delete preset">
+                <i className="fas fa-times"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <span className="text-gray-400">No presets yet. Save the current color, boldness, margin, resolution and mode under a name.</span>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          placeholder="Preset name"
+          className="px-2 h-7 border border-gray-200 rounded w-48"
+        />
+        <button
+          onClick={save}
+          disabled={!trimmed}
+          className="text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <i className="fas fa-save mr-1"></i>{replaces ? 'Replace preset' : 'Save current settings'}
+        </button>
+        <span className="flex-1"></span>
+        <button onClick={() => importInputRef.current?.click()} className="text-gray-500 hover:text-indigo-600 font-medium">
+          <i className="fas fa-file-import mr-1"></i>Import
+        </button>
+        <button
+          onClick={onExport}
+          disabled={presets.length === 0}
+          className="text-gray-500 hover:text-indigo-600 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <i className="fas fa-file-export mr-1"></i>Export
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+};
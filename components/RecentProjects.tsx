@@ -0,0 +1,62 @@
+import React from 'react';
+import type { ProjectSummary } from '../services/projectStore';
+import { useObjectUrl } from '../utils/useObjectUrl';
+
+export type RecentProject = ProjectSummary & { colorizedCount: number };
+
+interface RecentProjectsProps {
+  projects: RecentProject[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const ProjectRow: React.FC<{ project: RecentProject } & Omit<RecentProjectsProps, 'projects'>> = ({ project, onOpen, onDelete, disabled }) => {
+  const thumbnailUrl = useObjectUrl(project.thumbnail);
+
+  return (
+    <li className="flex items-center gap-3 py-2">
+      <button
+        onClick={() => onOpen(project.id)}
+        disabled={disabled}
+        className="flex flex-1 min-w-0 items-center gap-3 text-left group disabled:opacity-50"
+      >
+        <span className="w-10 h-12 flex-shrink-0 rounded border border-gray-200 bg-gray-50 overflow-hidden flex items-center justify-center">
+          {thumbnailUrl
+            ? <img src={thumbnailUrl} alt="" className="max-w-full max-h-full object-contain" />
+            : <i className="fas fa-file-pdf text-gray-300"></i>}
+        </span>
+        <span className="flex flex-col min-w-0">
+          <span className="text-sm font-medium text-gray-800 truncate group-hover:text-indigo-600">{project.name}</span>
+          <span className="text-xs text-gray-400">
+            {project.colorizedCount} of {project.numPages} pages colorized · {formatDate(project.updatedAt)}
+          </span>
+        </span>
+      </button>
+      <button
+        onClick={() => onDelete(project.id)}
+        disabled={disabled}
+        className="p-2 text-gray-300 hover:text-red-600 disabled:opacity-50"
+        title="Delete saved project"
+      >
+        <i className="fas fa-trash"></i>
+      </button>
+    </li>
+  );
+};
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, ...props }) => {
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="w-full max-w-xl bg-white rounded-2xl shadow-sm border border-gray-100 px-6 py-4">
+      <h3 className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1">Recent projects</h3>
+      <ul className="divide-y divide-gray-100">
+        {projects.map(project => <ProjectRow key={project.id} project={project} {...props} />)}
+      </ul>
+    </div>
+  );
+};
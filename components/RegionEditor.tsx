@@ -0,0 +1,253 @@
+import React, { useRef, useState } from 'react';
+import { ColorRegion, RegionPoint } from '../services/colorizeCore';
+
+export type RegionTool = 'none' | 'rect' | 'freehand';
+
+// Freehand strokes only record a new point once the pointer moved this far (normalized units).
+const MIN_POINT_DISTANCE = 0.004;
+const MIN_RECT_SIZE = 0.01;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const polygonPoints = (region: Pick<ColorRegion, 'shape' | 'points'>): string => {
+  if (region.shape === 'rect' && region.points.length >= 2) {
+    const [a, b] = region.points;
+    return `${a.x},${a.y} ${b.x},${a.y} ${b.x},${b.y} ${a.x},${b.y}`;
+  }
+  return region.points.map(p => `${p.x},${p.y}`).join(' ');
+};
+
+interface RegionOverlayProps {
+  regions: ColorRegion[];
+  // Read-only areas shown for reference, e.g. matches of text rules
+  previewRegions?: ColorRegion[];
+  tool: RegionTool;
+  selectedId: string | null;
+  onCreate: (shape: ColorRegion['shape'], points: RegionPoint[]) => void;
+  onSelect: (id: string | null) => void;
+}
+
+/**
+ * SVG layer laid exactly over the page preview.
+ * Uses a 0-1 viewBox so region coordinates are independent of render scale.
+ */
+export const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions, previewRegions = [], tool, selectedId, onCreate, onSelect }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [draft, setDraft] = useState<{ shape: ColorRegion['shape']; points: RegionPoint[] } | null>(null);
+
+  const toPoint = (event: React.PointerEvent): RegionPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: clamp01((event.clientX - rect.left) / rect.width),
+      y: clamp01((event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === 'none') return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toPoint(event);
+    setDraft({ shape: tool, points: tool === 'rect' ? [point, point] : [point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = toPoint(event);
+
+    if (draft.shape === 'rect') {
+      setDraft({ ...draft, points: [draft.points[0], point] });
+      return;
+    }
+
+    const last = draft.points[draft.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_DISTANCE) {
+      setDraft({ ...draft, points: [...draft.points, point] });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+
+    if (draft.shape === 'rect') {
+      const [a, b] = draft.points;
+      if (Math.abs(a.x - b.x) < MIN_RECT_SIZE || Math.abs(a.y - b.y) < MIN_RECT_SIZE) return;
+      // Normalize to top-left / bottom-right
+      onCreate('rect', [
+        { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y) },
+        { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) },
+      ]);
+    } else if (draft.points.length >= 3) {
+      onCreate('freehand', draft.points);
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 1 1"
+      preserveAspectRatio="none"
+      className="absolute inset-0 w-full h-full"
+      style={{ pointerEvents: tool === 'none' ? 'none' : 'auto', cursor: tool === 'none' ? 'default' : 'crosshair', touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {previewRegions.map(region => (
+        <polygon
+          key={region.id}
+          points={polygonPoints(region)}
+          fill={region.color}
+          fillOpacity={0.12}
+          stroke={region.color}
+          strokeWidth={1}
+          strokeDasharray="1 2"
+          vectorEffect="non-scaling-stroke"
+          style={{ pointerEvents: 'none' }}
+        />
+      ))}
+      {regions.map(region => (
+        <polygon
+          key={region.id}
+          points={polygonPoints(region)}
+          fill={region.color}
+          fillOpacity={0.2}
+          stroke={region.color}
+          strokeWidth={region.id === selectedId ? 3 : 1.5}
+          strokeDasharray={region.id === selectedId ? undefined : '4 2'}
+          vectorEffect="non-scaling-stroke"
+          style={{ pointerEvents: tool === 'none' ? 'auto' : 'none', cursor: 'pointer' }}
+          onClick={() => onSelect(region.id === selectedId ? null : region.id)}
+        />
+      ))}
+      {draft && (
+        <polygon
+          points={polygonPoints(draft)}
+          fill="#6366F1"
+          fillOpacity={0.15}
+          stroke="#6366F1"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+interface RegionListProps {
+  regions: ColorRegion[];
+  tool: RegionTool;
+  selectedId: string | null;
+  currentPage: number;
+  numPages: number;
+  onToolChange: (tool: RegionTool) => void;
+  onSelect: (id: string | null) => void;
+  onChange: (region: ColorRegion) => void;
+  onDelete: (id: string) => void;
+  onApplyToPages: (pages: number[] | 'all') => void;
+}
+
+export const RegionList: React.FC<RegionListProps> = ({
+  regions,
+  tool,
+  selectedId,
+  currentPage,
+  numPages,
+  onToolChange,
+  onSelect,
+  onChange,
+  onDelete,
+  onApplyToPages,
+}) => {
+  const [targetPage, setTargetPage] = useState<number>(Math.min(numPages, currentPage + 1));
+
+  const toolButton = (value: RegionTool, icon: string, label: string) => (
+    <button
+      onClick={() => onToolChange(tool === value ? 'none' : value)}
+      className={`px-2 py-1 rounded-md border text-xs ${tool === value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-gray-600 border-gray-200 hover:border-indigo-300'}`}
+      title={label}
+    >
+      <i className={`fas ${icon} mr-1`}></i>{label}
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-3 text-sm text-gray-600 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <label className="font-medium text-xs uppercase tracking-wider">Regions</label>
+        <div className="flex gap-1">
+          {toolButton('rect', 'fa-vector-square', 'Rectangle')}
+          {toolButton('freehand', 'fa-draw-polygon', 'Freehand')}
+        </div>
+      </div>
+
+      {regions.length === 0 ? (
+        <p className="text-xs text-gray-400">Draw on the original page to color an area differently.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {regions.map((region, index) => (
+            <li
+              key={region.id}
+              className={`flex items-center gap-2 p-1 rounded-md ${region.id === selectedId ? 'bg-indigo-50' : ''}`}
+              onClick={() => onSelect(region.id)}
+            >
+              <input
+                type="color"
+                value={region.color}
+                onChange={(e) => onChange({ ...region, color: e.target.value })}
+                className="w-7 h-7 rounded cursor-pointer border border-gray-200 bg-transparent"
+                title="Region color"
+              />
+              <span className="text-xs w-16 truncate">
+                <i className={`fas ${region.shape === 'rect' ? 'fa-vector-square' : 'fa-draw-polygon'} mr-1 text-gray-400`}></i>
+                #{index + 1}
+              </span>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="5"
+                value={region.boldness}
+                onChange={(e) => onChange({ ...region, boldness: Number(e.target.value) })}
+                className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                title="Region boldness"
+              />
+              <span className="text-[10px] text-gray-400 w-8 text-right">{region.boldness}%</span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(region.id);
+                }}
+                className="text-gray-400 hover:text-red-500 text-xs"
+                title="Delete region"
+              >
+                <i className="fas fa-trash"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {regions.length > 0 && numPages > 1 && (
+        <div className="flex items-center gap-2 pt-2 border-t border-gray-100 text-xs">
+          <span className="text-gray-500">Apply these regions to</span>
+          <input
+            type="number"
+            min={1}
+            max={numPages}
+            value={targetPage}
+            onChange={(e) => setTargetPage(Math.min(numPages, Math.max(1, Number(e.target.value))))}
+            className="w-14 px-1 border border-gray-200 rounded text-center"
+          />
+          <button onClick={() => onApplyToPages([targetPage])} className="text-indigo-600 hover:text-indigo-800 font-medium">
+            Page
+          </button>
+          <span className="text-gray-300">|</span>
+          <button onClick={() => onApplyToPages('all')} className="text-indigo-600 hover:text-indigo-800 font-medium">
+            All pages
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { PrintInk, PrintInkMode } from '../services/pageEncoding';
+import { Cmyk, findSpotColor, SPOT_COLOR_LIBRARY, spotPreviewHex } from '../services/spotColors';
+
+interface SpotColorPickerProps {
+  value: PrintInk;
+  onChange: (printInk: PrintInk) => void;
+  // Sets the on-screen ink to the spot's color, so the preview matches the print
+  onUseAsInk?: (hex: string) => void;
+}
+
+const CMYK_CHANNELS = ['C', 'M', 'Y', 'K'];
+
+export const SpotColorPicker: React.FC<SpotColorPickerProps> = ({ value, onChange, onUseAsInk }) => {
+  const { mode, spot } = value;
+  const libraryName = findSpotColor(spot.name)?.name ?? '';
+  const previewHex = spotPreviewHex(spot);
+
+  // Editing a library ink makes it a custom one; its Lab measurement no longer applies
+  const updateCmyk = (channel: number, amount: number) => {
+    const cmyk = [...spot.cmyk] as Cmyk;
+    cmyk[channel] = Math.min(100, Math.max(0, amount));
+    onChange({ mode, spot: { name: spot.name, cmyk } });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="flex bg-white rounded border border-gray-200 font-medium overflow-hidden h-8 shrink-0">
+          {(['spot', 'cmyk'] as PrintInkMode[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onChange({ mode: option, spot })}
+              className={`px-2 ${mode === option ? 'bg-indigo-600 text-white' : 'text-gray-500 hover:text-indigo-600'}`}
+              title={option === 'spot' ? 'One named separation plate' : 'Process CMYK with these exact values'}
+            >
+              {option === 'spot' ? 'Spot' : 'CMYK'}
+            </button>
+          ))}
+        </span>
+
+        <select
+          value={libraryName}
+          onChange={(e) => {
+            const chosen = findSpotColor(e.target.value);
+            if (chosen) onChange({ mode, spot: chosen });
+          }}
+          className="flex-1 min-w-0 bg-gray-50 rounded-lg border border-gray-200 px-2 h-8 text-gray-700 cursor-pointer"
+        >
+          {!libraryName && <option value="">Custom ink</option>}
+          {SPOT_COLOR_LIBRARY.map(entry => (
+            <option key={entry.name} value={entry.name}>{entry.name}</option>
+          ))}
+        </select>
+
+        <span className="w-8 h-8 rounded border border-gray-200 shrink-0" style={{ background: previewHex }} title={`Screen preview ${previewHex}`}></span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {mode === 'spot' && (
+          <input
+            type="text"
+            value={spot.name}
+            onChange={(e) => onChange({ mode, spot: { name: e.target.value, cmyk: spot.cmyk } })}
+            className="flex-1 min-w-[8rem] bg-gray-50 rounded border border-gray-200 px-2 h-7"
+            title="Separation name; it must match the ink the print shop loads"
+            placeholder="Separation name"
+          />
+        )}
+        {CMYK_CHANNELS.map((channel, index) => (
+          <label key={channel} className="flex items-center gap-1 text-gray-500">
+            {channel}
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={spot.cmyk[index]}
+              onChange={(e) => updateCmyk(index, Number(e.target.value))}
+              className="w-12 bg-gray-50 rounded border border-gray-200 px-1 h-7 text-center text-gray-700"
+            />
+          </label>
+        ))}
+        {onUseAsInk && (
+          <button
+            onClick={() => onUseAsInk(previewHex)}
+            className="px-2 h-7 rounded border border-gray-200 hover:border-indigo-400 hover:text-indigo-700"
+            title="Colorize with this ink's screen color"
+          >
+            Use as ink
+          </button>
+        )}
+      </div>
+      {spot.lab && (
+        <span className="text-[10px] text-gray-400">Lab {spot.lab.join(' / ')} · confirm critical colors with your print shop</span>
+      )}
+    </div>
+  );
+};
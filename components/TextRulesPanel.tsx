@@ -0,0 +1,115 @@
+import React from 'react';
+import { TextRule, TextRuleKind } from '../services/textRules';
+
+interface TextRulesPanelProps {
+  rules: TextRule[];
+  defaultBoldness: number;
+  onChange: (rules: TextRule[]) => void;
+}
+
+const RULE_LABELS: Record<TextRuleKind, string> = {
+  minFontSize: 'Font size ≥',
+  bold: 'Bold text',
+  regex: 'Line matches',
+};
+
+const RULE_DEFAULT_COLORS: Record<TextRuleKind, string> = {
+  minFontSize: '#3B82F6',
+  bold: '#EF4444',
+  regex: '#10B981',
+};
+
+export const TextRulesPanel: React.FC<TextRulesPanelProps> = ({ rules, defaultBoldness, onChange }) => {
+  const addRule = (kind: TextRuleKind) => {
+    onChange([
+      ...rules,
+      {
+        id: Math.random().toString(36).slice(2, 10),
+        kind,
+        enabled: true,
+        minFontSize: 18,
+        pattern: '',
+        color: RULE_DEFAULT_COLORS[kind],
+        boldness: defaultBoldness,
+      },
+    ]);
+  };
+
+  const updateRule = (id: string, patch: Partial<TextRule>) => {
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rules.map(rule => (
+        <div key={rule.id} className={`flex items-center gap-2 ${rule.enabled ? '' : 'opacity-50'}`}>
+          <input
+            type="checkbox"
+            checked={rule.enabled}
+            onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+            className="accent-indigo-600"
+            title="Enable rule"
+          />
+          <span className="text-xs w-24 whitespace-nowrap">{RULE_LABELS[rule.kind]}</span>
+
+          {rule.kind === 'minFontSize' && (
+            <span className="flex items-center gap-1 text-xs">
+              <input
+                type="number"
+                min={1}
+                max={200}
+                value={rule.minFontSize}
+                onChange={(e) => updateRule(rule.id, { minFontSize: Math.max(1, Number(e.target.value)) })}
+                className="w-14 px-1 border border-gray-200 rounded text-center"
+              />
+              pt
+            </span>
+          )}
+          {rule.kind === 'regex' && (
+            <input
+              type="text"
+              value={rule.pattern}
+              placeholder="^Chapter \d+"
+              onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-0.5 border border-gray-200 rounded text-xs font-mono"
+              title="JavaScript regular expression, tested against each text line"
+            />
+          )}
+
+          <input
+            type="color"
+            value={rule.color}
+            onChange={(e) => updateRule(rule.id, { color: e.target.value })}
+            className="w-7 h-7 rounded cursor-pointer border border-gray-200 bg-transparent ml-auto"
+            title="Rule color"
+          />
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="5"
+            value={rule.boldness}
+            onChange={(e) => updateRule(rule.id, { boldness: Number(e.target.value) })}
+            className="w-24 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+            title="Rule boldness"
+          />
+          <button
+            onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+            className="text-gray-400 hover:text-red-500 text-xs"
+            title="Delete rule"
+          >
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-3 text-xs">
+        {(Object.keys(RULE_LABELS) as TextRuleKind[]).map(kind => (
+          <button key={kind} onClick={() => addRule(kind)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+            <i className="fas fa-plus mr-1"></i>{RULE_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
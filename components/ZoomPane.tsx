@@ -0,0 +1,131 @@
+import React, { useEffect, useRef } from 'react';
+
+// Zoom factor plus pan offset in CSS pixels from the centered position
+export interface ViewTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_VIEW: ViewTransform = { zoom: 1, x: 0, y: 0 };
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+const WHEEL_ZOOM_STEP = 1.15;
+const BUTTON_ZOOM_STEP = 2;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Zooms to nextZoom keeping the content point under (px, py) in place; px/py are relative to the pane center.
+const zoomAround = (view: ViewTransform, nextZoom: number, px: number, py: number): ViewTransform => {
+  const zoom = clampZoom(nextZoom);
+  if (zoom === MIN_ZOOM) return DEFAULT_VIEW;
+  const ratio = zoom / view.zoom;
+  return { zoom, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio };
+};
+
+interface ZoomPaneProps {
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  // Off while another tool (e.g. region drawing) owns pointer drags
+  panEnabled?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * Pane with wheel zoom and drag-to-pan. Panes given the same view stay in sync.
+ */
+export const ZoomPane: React.FC<ZoomPaneProps> = ({ view, onViewChange, panEnabled = true, children }) => {
+  const paneRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerId: number; startX: number; startY: number; origin: ViewTransform } | null>(null);
+  // The wheel listener is registered once, so it reads the latest props from here
+  const latest = useRef({ view, onViewChange });
+  latest.current = { view, onViewChange };
+
+  // React's wheel listener is passive; a native one is needed to keep the page from scrolling
+  useEffect(() => {
+    const pane = paneRef.current;
+    if (!pane) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const { view: current, onViewChange: change } = latest.current;
+      const factor = event.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      change(zoomAround(
+        current,
+        current.zoom * factor,
+        event.clientX - rect.left - rect.width / 2,
+        event.clientY - rect.top - rect.height / 2
+      ));
+    };
+    pane.addEventListener('wheel', handleWheel, { passive: false });
+    return () => pane.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!panEnabled || view.zoom === MIN_ZOOM || event.button !== 0) return;
+    dragRef.current = { pointerId: event.pointerId, startX: event.clientX, startY: event.clientY, origin: view };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    onViewChange({
+      ...drag.origin,
+      x: drag.origin.x + event.clientX - drag.startX,
+      y: drag.origin.y + event.clientY - drag.startY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const canPan = panEnabled && view.zoom > MIN_ZOOM;
+
+  return (
+    <div
+      ref={paneRef}
+      className="relative overflow-hidden w-full h-full flex items-center justify-center p-4 select-none"
+      style={{ cursor: canPan ? (dragRef.current ? 'grabbing' : 'grab') : undefined, touchAction: canPan ? 'none' : undefined }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onDoubleClick={() => onViewChange(DEFAULT_VIEW)}
+    >
+      <div
+        className="w-full"
+        style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`, transformOrigin: 'center center' }}
+      >
+        {children}
+      </div>
+
+      <div
+        className="absolute bottom-3 left-3 z-10 flex items-center bg-white/90 rounded-full border border-gray-200 shadow-sm text-xs text-gray-600"
+        onPointerDown={(e) => e.stopPropagation()}
+        onDoubleClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={() => onViewChange(zoomAround(view, view.zoom / BUTTON_ZOOM_STEP, 0, 0))}
+          disabled={view.zoom === MIN_ZOOM}
+          className="px-2 py-1 hover:text-indigo-600 disabled:opacity-30"
+          title="Zoom out"
+        >
+          <i className="fas fa-search-minus"></i>
+        </button>
+        <button onClick={() => onViewChange(DEFAULT_VIEW)} className="w-12 py-1 font-medium hover:text-indigo-600" title="Fit (double-click the page)">
+          {Math.round(view.zoom * 100)}%
+        </button>
+        <button
+          onClick={() => onViewChange(zoomAround(view, view.zoom * BUTTON_ZOOM_STEP, 0, 0))}
+          disabled={view.zoom === MAX_ZOOM}
+          className="px-2 py-1 hover:text-indigo-600 disabled:opacity-30"
+          title="Zoom in"
+        >
+          <i className="fas fa-search-plus"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+// Local (Sauvola-style) thresholding, an alternative to the single global tone curve:
+// each pixel is compared with the mean and spread of its neighbourhood, read from integral images.
+import type { PixelBuffer } from './colorizeCore';
+
+// global: one tone curve from boldness for the whole page.
+// adaptive: each pixel is thresholded against its neighbourhood (raster only).
+export type ToneMode = 'global' | 'adaptive';
+
+export interface AdaptiveThresholdOptions {
+  // Side of the square neighbourhood, as a percentage of the page width.
+  windowPercent: number;
+  // 0-100; higher picks up fainter ink.
+  sensitivity: number;
+}
+
+export const DEFAULT_ADAPTIVE_THRESHOLD: AdaptiveThresholdOptions = { windowPercent: 6, sensitivity: 65 };
+
+export const MIN_WINDOW_PERCENT = 1;
+export const MAX_WINDOW_PERCENT = 20;
+
+// Dynamic range of the standard deviation in Sauvola's formula for 8-bit images.
+const SAUVOLA_R = 128;
+// Integral images are built on a downsampled grid so two Float64 tables stay small at high render scales.
+const MAX_INTEGRAL_SAMPLES = 4_000_000;
+
+/**
+ * Per-cell thresholds on a grid that is `step` pixels per cell.
+ * Look values up with thresholdAt.
+ */
+export interface ThresholdMap {
+  values: Float32Array;
+  cols: number;
+  step: number;
+}
+
+// Sauvola's k: 0.5 at sensitivity 0 down to 0.05 at 100.
+const sensitivityToK = (sensitivity: number) => 0.5 - (Math.min(100, Math.max(0, sensitivity)) / 100) * 0.45;
+
+/**
+ * Computes T = m * (1 + k * (s / R - 1)) for every grid cell, where m and s are the
+ * mean and standard deviation of the luminance in the window around it.
+ * Both come from integral images of the luminance and its square, so the cost
+ * does not depend on the window size.
+ */
+export const computeThresholdMap = (image: PixelBuffer, options: AdaptiveThresholdOptions): ThresholdMap => {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_INTEGRAL_SAMPLES)));
+  const cols = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+
+  // Box-averaged luminance per cell; transparent pixels count as white paper.
+  const luminance = new Float32Array(cols * rows);
+  const counts = new Uint16Array(cols * rows);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / step) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const cell = rowOffset + Math.floor(x / step);
+      luminance[cell] += data[i + 3] === 0 ? 255 : 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      counts[cell]++;
+    }
+  }
+  for (let cell = 0; cell < luminance.length; cell++) luminance[cell] /= counts[cell];
+
+  // Integral images with a zero row and column in front, so lookups need no bounds checks.
+  const stride = cols + 1;
+  const sum = new Float64Array(stride * (rows + 1));
+  const sumSq = new Float64Array(stride * (rows + 1));
+  for (let y = 0; y < rows; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < cols; x++) {
+      const v = luminance[y * cols + x];
+      rowSum += v;
+      rowSumSq += v * v;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSumSq;
+    }
+  }
+
+  const windowPercent = Math.min(MAX_WINDOW_PERCENT, Math.max(MIN_WINDOW_PERCENT, options.windowPercent));
+  const radius = Math.max(1, Math.round(((windowPercent / 100) * cols) / 2));
+  const k = sensitivityToK(options.sensitivity);
+  const values = new Float32Array(cols * rows);
+
+  for (let y = 0; y < rows; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(rows, y + radius + 1);
+    for (let x = 0; x < cols; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(cols, x + radius + 1);
+      const area = (x1 - x0) * (y1 - y0);
+
+      const a = y0 * stride + x0;
+      const b = y0 * stride + x1;
+      const c = y1 * stride + x0;
+      const d = y1 * stride + x1;
+      const mean = (sum[d] - sum[b] - sum[c] + sum[a]) / area;
+      const variance = (sumSq[d] - sumSq[b] - sumSq[c] + sumSq[a]) / area - mean * mean;
+      const deviation = Math.sqrt(Math.max(0, variance));
+
+      values[y * cols + x] = mean * (1 + k * (deviation / SAUVOLA_R - 1));
+    }
+  }
+
+  return { values, cols, step };
+};
+
+export const thresholdAt = (map: ThresholdMap, x: number, y: number): number =>
+  map.values[Math.floor(y / map.step) * map.cols + Math.floor(x / map.step)];
+
+/**
+ * Half-width (in luminance levels) of the soft edge around the local threshold.
+ * Boldness keeps its meaning: higher values give a harder, darker edge.
+ */
+export const getThresholdBand = (boldness: number): number => 2 + ((100 - boldness) / 100) * 40;
+
+/**
+ * Normalizes a luminance against its local threshold.
+ * Returns t, where 0 is full ink and 1 is background, like getToneT.
+ */
+export const getAdaptiveT = (luminance: number, threshold: number, band: number): number => {
+  const t = (luminance - threshold + band) / (2 * band);
+  return t < 0 ? 0 : t > 1 ? 1 : t;
+};
@@ -0,0 +1,60 @@
+// The app's IndexedDB database: saved projects, batch progress and presets.
+// Store layout lives here so every module opens the same schema version.
+
+export const PROJECTS_STORE = 'projects';
+// Source PDF per project, kept apart so listing projects does not load every file
+export const PROJECT_FILES_STORE = 'projectFiles';
+// Colorized pages, keyed [projectId, pageNumber] so a project's pages form one key range
+export const PROJECT_PAGES_STORE = 'projectPages';
+export const BATCH_RUNS_STORE = 'batchRuns';
+export const PRESETS_STORE = 'presets';
+
+const DB_NAME = 'chromapdf';
+// 1: projects and their batch runs; 2: presets
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openAppDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(BATCH_RUNS_STORE, { keyPath: 'projectId' });
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+          db.createObjectStore(PROJECT_FILES_STORE);
+          db.createObjectStore(PROJECT_PAGES_STORE);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(PRESETS_STORE, { keyPath: 'name' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// All [id, n] keys of one project
+export const projectRange = (projectId: string) => IDBKeyRange.bound([projectId, -Infinity], [projectId, Infinity]);
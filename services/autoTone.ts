@@ -0,0 +1,120 @@
+// Automatic tone curve from the page's luminance histogram, an alternative to picking boldness by hand:
+// finds the paper and ink peaks and the paper's noise floor, and places the curve between them.
+import type { PixelBuffer, ToneCurve } from './colorizeCore';
+
+export interface HistogramAnalysis {
+  // Most common luminance of the paper and of the ink
+  paperPeak: number;
+  inkPeak: number;
+  // Darkest luminance that still reads as paper; below it is ink or paper noise turning into ink
+  noiseFloor: number;
+  // Share of pixels darker than noiseFloor
+  inkCoverage: number;
+}
+
+// Bins either side of each bin averaged before looking for peaks, so dithering and JPEG noise don't split them
+const SMOOTHING_RADIUS = 3;
+// A peak's flank ends where the smoothed count falls below this share of the peak
+const PAPER_EDGE_SHARE = 0.05;
+const INK_EDGE_SHARE = 0.25;
+// Pages with less ink than this (blank or nearly blank) get DEFAULT_AUTO_CURVE
+const MIN_INK_COVERAGE = 0.001;
+// Keeps antialiased glyph edges from being crushed into solid ink on crisp pages
+const MIN_INK_PAPER_GAP = 16;
+const MIN_AUTO_GAMMA = 1.5;
+const MAX_AUTO_GAMMA = 4;
+// Fully opaque pages are sampled on a grid this many pixels apart; the histogram shape does not need every pixel
+const SAMPLE_STEP = 2;
+
+export const DEFAULT_AUTO_CURVE: ToneCurve = { blackPoint: 100, whitePoint: 250, gamma: 2.5 };
+
+/**
+ * 256-bin histogram of perceived luminance, skipping transparent pixels.
+ */
+export const computeLuminanceHistogram = (image: PixelBuffer): Uint32Array => {
+  const { data, width, height } = image;
+  const histogram = new Uint32Array(256);
+  for (let y = 0; y < height; y += SAMPLE_STEP) {
+    for (let x = 0; x < width; x += SAMPLE_STEP) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      histogram[Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])]++;
+    }
+  }
+  return histogram;
+};
+
+const smooth = (histogram: Uint32Array): Float64Array => {
+  const smoothed = new Float64Array(256);
+  for (let i = 0; i < 256; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - SMOOTHING_RADIUS); j <= Math.min(255, i + SMOOTHING_RADIUS); j++) {
+      sum += histogram[j];
+      count++;
+    }
+    smoothed[i] = sum / count;
+  }
+  return smoothed;
+};
+
+const argMax = (values: Float64Array, from: number, to: number): number => {
+  let best = from;
+  for (let i = from + 1; i <= to; i++) if (values[i] > values[best]) best = i;
+  return best;
+};
+
+/**
+ * Finds the paper and ink peaks and the paper's noise floor.
+ * Assumes dark ink on light paper, as the rendered pages before colorizing are.
+ */
+export const analyzeHistogram = (histogram: Uint32Array): HistogramAnalysis => {
+  const smoothed = smooth(histogram);
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+
+  const paperPeak = argMax(smoothed, 0, 255);
+  let noiseFloor = paperPeak;
+  while (noiseFloor > 0 && smoothed[noiseFloor - 1] >= smoothed[paperPeak] * PAPER_EDGE_SHARE) noiseFloor--;
+
+  let inkPixels = 0;
+  for (let i = 0; i < noiseFloor; i++) inkPixels += histogram[i];
+  const inkPeak = noiseFloor > 0 ? argMax(smoothed, 0, noiseFloor - 1) : 0;
+
+  return { paperPeak, inkPeak, noiseFloor, inkCoverage: total > 0 ? inkPixels / total : 0 };
+};
+
+/**
+ * Black point, white point and gamma for a page, the same parameters getToneCurve derives from boldness.
+ * The white point sits on the paper's noise floor so paper texture and speckles wash out, the black point
+ * just above the ink peak so the ink core is solid, and the gamma rises as ink and paper get closer,
+ * which is what faint photocopies need.
+ */
+export const suggestToneCurve = (histogram: Uint32Array): ToneCurve => {
+  const { paperPeak, inkPeak, noiseFloor, inkCoverage } = analyzeHistogram(histogram);
+  if (inkCoverage < MIN_INK_COVERAGE || paperPeak - inkPeak < MIN_INK_PAPER_GAP * 2) return DEFAULT_AUTO_CURVE;
+
+  const smoothed = smooth(histogram);
+  let inkEdge = inkPeak;
+  while (inkEdge < noiseFloor - 1 && smoothed[inkEdge + 1] >= smoothed[inkPeak] * INK_EDGE_SHARE) inkEdge++;
+
+  const whitePoint = Math.max(noiseFloor, inkPeak + MIN_INK_PAPER_GAP * 2);
+  const blackPoint = Math.min(inkEdge, whitePoint - MIN_INK_PAPER_GAP);
+  const contrast = (paperPeak - inkPeak) / 255;
+  const gamma = Math.min(MAX_AUTO_GAMMA, Math.max(MIN_AUTO_GAMMA, 1 + 3 * (1 - contrast)));
+
+  return { blackPoint, whitePoint, gamma };
+};
+
+/**
+ * The boldness (0-100) whose getToneCurve comes closest to the given curve, for showing on the slider
+ * and for settings that only take a boldness (adaptive thresholding, vector mode).
+ */
+export const boldnessForCurve = (curve: ToneCurve): number => {
+  const fromBlackPoint = (curve.blackPoint / 200) * 100;
+  const fromGamma = ((curve.gamma - 1) / 3) * 100;
+  return Math.round(Math.min(100, Math.max(0, (fromBlackPoint + fromGamma) / 2)));
+};
+
+// Suggested boldness for a rendered page
+export const suggestBoldness = (image: PixelBuffer): number =>
+  boldnessForCurve(suggestToneCurve(computeLuminanceHistogram(image)));
@@ -0,0 +1,45 @@
+// Batch progress kept in IndexedDB, so a reload or crash can resume a run where it stopped.
+// Finished pages are saved with the project (see projectStore); this only tracks the queue.
+import { BATCH_RUNS_STORE, openAppDb, requestToPromise, transactionDone } from './appDb';
+
+export interface BatchFailure {
+  pageNumber: number;
+  reason: string;
+}
+
+/**
+ * Everything needed to pick a run up again after a reload.
+ * settings is whatever the caller needs to redo the remaining pages exactly as the finished ones;
+ * it must be structured-cloneable (Maps are fine).
+ */
+export interface BatchCheckpoint<TSettings> {
+  projectId: string;
+  settings: TSettings;
+  // Pages not yet attempted, in run order
+  pending: number[];
+  failures: BatchFailure[];
+  updatedAt: number;
+}
+
+export const saveBatchCheckpoint = async <TSettings>(checkpoint: BatchCheckpoint<TSettings>): Promise<void> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(BATCH_RUNS_STORE, 'readwrite');
+  transaction.objectStore(BATCH_RUNS_STORE).put(checkpoint);
+  await transactionDone(transaction);
+};
+
+export const loadBatchCheckpoint = async <TSettings>(projectId: string): Promise<BatchCheckpoint<TSettings> | null> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(BATCH_RUNS_STORE, 'readonly');
+  const checkpoint = await requestToPromise<BatchCheckpoint<TSettings> | undefined>(
+    transaction.objectStore(BATCH_RUNS_STORE).get(projectId)
+  );
+  return checkpoint ?? null;
+};
+
+export const clearBatchCheckpoint = async (projectId: string): Promise<void> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(BATCH_RUNS_STORE, 'readwrite');
+  transaction.objectStore(BATCH_RUNS_STORE).delete(projectId);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,111 @@
+// The canvas operations the shared page pipeline needs, so it can run on a browser
+// canvas or on a Node canvas implementation (see cli/nodeCanvasBackend.ts).
+import type { PixelBuffer } from './colorizeCore';
+
+export interface BackendContext2D {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  getImageData(sx: number, sy: number, sw: number, sh: number): ImageData;
+  putImageData(imageData: ImageData, dx: number, dy: number): void;
+}
+
+export interface BackendCanvas {
+  width: number;
+  height: number;
+  getContext(contextId: '2d'): BackendContext2D | null;
+}
+
+export type ImageMimeType = 'image/png' | 'image/webp' | 'image/avif';
+
+export interface CanvasBackend {
+  createCanvas(width: number, height: number): BackendCanvas;
+  encodePng(canvas: BackendCanvas): Promise<Uint8Array>;
+  // Decodes a PNG/JPEG given as a data URL or raw bytes
+  decodeImage(image: string | Uint8Array): Promise<PixelBuffer>;
+  // quality is 0-1
+  encodeJpeg(image: PixelBuffer, quality: number): Promise<Uint8Array>;
+  // quality is 0-1 and ignored for PNG; rejects when the format cannot be encoded here
+  encodeImage(image: PixelBuffer, type: ImageMimeType, quality: number): Promise<Uint8Array>;
+}
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      // Browsers fall back to PNG for formats they cannot encode
+      if (!blob || blob.type !== type) {
+        reject(new Error(`Canvas could not be encoded as ${type}`));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, type, quality);
+  });
+
+const createDomCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encodePixels = async (image: PixelBuffer, type: string, quality: number): Promise<Uint8Array> => {
+  const canvas = createDomCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Browser Canvas context not available");
+
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  return canvasToBytes(canvas, type, quality);
+};
+
+export const browserCanvasBackend: CanvasBackend = {
+  createCanvas: createDomCanvas,
+
+  encodePng: (canvas) => canvasToBytes(canvas as HTMLCanvasElement, 'image/png'),
+
+  decodeImage: async (image) => {
+    const blob = typeof image === 'string' ? await (await fetch(image)).blob() : new Blob([image]);
+    const bitmap = await createImageBitmap(blob);
+    const canvas = createDomCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Browser Canvas context not available");
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  },
+
+  encodeJpeg: (image, quality) => encodePixels(image, 'image/jpeg', quality),
+
+  encodeImage: encodePixels,
+};
+
+interface CanvasAndContext {
+  canvas: BackendCanvas | null;
+  context: BackendContext2D | null;
+}
+
+/**
+ * Adapts a backend to the canvas factory pdf.js uses for its scratch canvases
+ * (patterns, soft masks, Type3 glyphs), passed as getDocument({ canvasFactory }).
+ */
+export const createPdfCanvasFactory = (backend: CanvasBackend) => ({
+  create(width: number, height: number): CanvasAndContext {
+    if (width <= 0 || height <= 0) throw new Error("Invalid canvas size");
+    const canvas = backend.createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+
+  reset(entry: CanvasAndContext, width: number, height: number) {
+    if (!entry.canvas) throw new Error("Canvas is not specified");
+    entry.canvas.width = width;
+    entry.canvas.height = height;
+  },
+
+  destroy(entry: CanvasAndContext) {
+    if (!entry.canvas) throw new Error("Canvas is not specified");
+    // Zeroing the size releases the pixel memory right away.
+    entry.canvas.width = 0;
+    entry.canvas.height = 0;
+    entry.canvas = null;
+    entry.context = null;
+  },
+});
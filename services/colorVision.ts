@@ -0,0 +1,113 @@
+// Color vision deficiency (CVD) simulation, for checking color-coded output.
+// Uses the Machado, Oliveira & Fernandes (2009) matrices at full severity, applied in linear RGB.
+import { hexToRgb, RGB } from './colorizeCore';
+
+export type CvdType = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export const CVD_TYPES: CvdType[] = ['protanopia', 'deuteranopia', 'tritanopia'];
+
+export const CVD_LABELS: Record<CvdType, string> = {
+  protanopia: 'Protanopia',
+  deuteranopia: 'Deuteranopia',
+  tritanopia: 'Tritanopia',
+};
+
+// Row-major 3x3, linear RGB in and out
+export const CVD_MATRICES: Record<CvdType, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+};
+
+// Below this CIE76 distance two colors are hard to tell apart as category markers,
+// even though they are well above the just-noticeable difference (~2.3).
+export const CONFUSABLE_DELTA_E = 12;
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number) => {
+  const v = Math.min(1, Math.max(0, value));
+  return 255 * (v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+};
+
+export const simulateCvd = (color: RGB, type: CvdType): RGB => {
+  const m = CVD_MATRICES[type];
+  const r = toLinear(color.r);
+  const g = toLinear(color.g);
+  const b = toLinear(color.b);
+  return {
+    r: fromLinear(m[0] * r + m[1] * g + m[2] * b),
+    g: fromLinear(m[3] * r + m[4] * g + m[5] * b),
+    b: fromLinear(m[6] * r + m[7] * g + m[8] * b),
+  };
+};
+
+// sRGB -> CIE L*a*b* (D65)
+const toLab = ({ r, g, b }: RGB): [number, number, number] => {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const deltaE = (a: RGB, b: RGB): number => {
+  const [l1, a1, b1] = toLab(a);
+  const [l2, a2, b2] = toLab(b);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+};
+
+export interface NamedColor {
+  label: string;
+  hex: string;
+}
+
+export interface ConfusablePair {
+  type: CvdType;
+  a: NamedColor;
+  b: NamedColor;
+  // Distance under the simulated deficiency
+  deltaE: number;
+}
+
+/**
+ * Pairs of colors that are distinct with typical vision but fall below CONFUSABLE_DELTA_E
+ * under one of the deficiencies. Pairs that already look alike to everyone are not reported.
+ */
+export const findConfusablePairs = (colors: NamedColor[], types: CvdType[] = CVD_TYPES): ConfusablePair[] => {
+  const unique = colors.filter((color, index) =>
+    colors.findIndex(other => other.hex.toLowerCase() === color.hex.toLowerCase()) === index
+  );
+  const pairs: ConfusablePair[] = [];
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const a = hexToRgb(unique[i].hex);
+      const b = hexToRgb(unique[j].hex);
+      if (deltaE(a, b) < CONFUSABLE_DELTA_E) continue;
+
+      for (const type of types) {
+        const simulated = deltaE(simulateCvd(a, type), simulateCvd(b, type));
+        if (simulated < CONFUSABLE_DELTA_E) pairs.push({ type, a: unique[i], b: unique[j], deltaE: simulated });
+      }
+    }
+  }
+  return pairs;
+};
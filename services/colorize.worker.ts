@@ -0,0 +1,52 @@
+import { applyColorization, ColorizeParams } from './colorizeCore';
+import { cleanupScan, NO_SCAN_CLEANUP } from './scanCleanup';
+
+// 'cleanup' only runs params.cleanup, for previewing the cleaned scan.
+export type ColorizeTask = 'colorize' | 'cleanup';
+
+export interface ColorizeJobRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  params: ColorizeParams;
+  task: ColorizeTask;
+}
+
+export interface ColorizeJobResponse {
+  id: number;
+  blob?: Blob;
+  error?: string;
+}
+
+const reply = (message: ColorizeJobResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<ColorizeJobRequest>) => {
+  const { id, bitmap, params, task } = event.data;
+
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!ctx) {
+      reply({ id, error: "OffscreenCanvas context not available" });
+      return;
+    }
+
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (task === 'cleanup') {
+      cleanupScan(imageData, params.cleanup ?? NO_SCAN_CLEANUP);
+    } else {
+      applyColorization(imageData, params);
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    reply({ id, blob: await canvas.convertToBlob({ type: 'image/png' }) });
+  } catch (e) {
+    console.error("Worker processing error:", e);
+    reply({ id, error: "Failed to process image in worker." });
+  }
+};
@@ -0,0 +1,534 @@
+// Pure pixel math shared by the main thread and the colorize workers.
+// Nothing in here may touch the DOM so it can run inside a Worker.
+import { cleanupScan, hasScanCleanup, ScanCleanupOptions } from './scanCleanup';
+import { AdaptiveThresholdOptions, computeThresholdMap, getAdaptiveT, getThresholdBand, thresholdAt } from './adaptiveThreshold';
+import { nearestCompliantColor } from './contrast';
+import { boldnessForCurve, computeLuminanceHistogram, suggestToneCurve } from './autoTone';
+
+/**
+ * One stop of a gradient map.
+ * position runs along the tone curve output: 0 is the darkest ink, 1 is the paper.
+ */
+export interface ColorStop {
+  color: string;
+  position: number;
+}
+
+// A point in normalized page coordinates: 0,0 is the top-left corner, 1,1 the bottom-right.
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * An area of the page with its own ink color and boldness.
+ * rect regions hold two opposite corners; freehand regions hold a closed polygon.
+ */
+export interface ColorRegion {
+  id: string;
+  shape: 'rect' | 'freehand';
+  points: RegionPoint[];
+  color: string;
+  boldness: number;
+}
+
+export interface ColorizeParams {
+  targetColorHex: string;
+  boldness: number;
+  // Paper color that t=1 maps to; defaults to white. A dark paper with a light target inverts the page.
+  backgroundHex?: string;
+  // Duotone/tritone gradient map; replaces the single target color when it has 2+ stops.
+  // Its last stop is the paper, so backgroundHex is ignored.
+  palette?: ColorStop[];
+  // Raster only: pixels inside a region use its color and boldness; later regions win on overlap.
+  regions?: ColorRegion[];
+  // Leave areas that are already in color (photos, charts) untouched and only recolor the grayscale ink.
+  preserveColorPhotos?: boolean;
+  // Scan preprocessing (flatten, despeckle, deskew) run before anything else.
+  cleanup?: ScanCleanupOptions;
+  // Raster only: threshold each pixel against its neighbourhood instead of the global tone curve.
+  adaptive?: AdaptiveThresholdOptions;
+  // Minimum WCAG contrast ratio of ink against paper (e.g. 4.5 for AA); ink colors below it are darkened
+  // (or lightened on dark paper) to the nearest shade that meets it. Applies to regions too.
+  minContrast?: number;
+  // Raster only: derive the page's tone curve from its luminance histogram instead of from boldness.
+  // Regions keep their own boldness.
+  autoBoldness?: boolean;
+  // Raster only: anti-alias the edges the tone curve cuts through, so high boldness stays solid without
+  // stair-stepped glyphs. Not used with adaptive thresholding, which has its own soft band.
+  smoothEdges?: boolean;
+}
+
+// Anything carrying RGBA pixels, e.g. ImageData.
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface ToneCurve {
+  blackPoint: number;
+  whitePoint: number;
+  gamma: number;
+}
+
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Helper to convert hex to rgb
+export const hexToRgb = (hex: string): RGB => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result ? {
+    r: parseInt(result[1], 16),
+    g: parseInt(result[2], 16),
+    b: parseInt(result[3], 16)
+  } : { r: 0, g: 0, b: 0 };
+};
+
+export const rgbToHex = ({ r, g, b }: RGB): string =>
+  '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+// Uncalibrated CMYK (components 0-1) to 0-255 RGB, as PDF viewers show DeviceCMYK without a profile
+export const cmykToRgb = (c: number, m: number, y: number, k: number): RGB => ({
+  r: 255 * (1 - c) * (1 - k),
+  g: 255 * (1 - m) * (1 - k),
+  b: 255 * (1 - y) * (1 - k),
+});
+
+/**
+ * Maps boldness (0-100) to the tone curve parameters.
+ * BLACK_POINT: Pixels darker than this become 100% target color.
+ * GAMMA: Curve steepness.
+ *
+ * At boldness 0: Black Point 0, Gamma 1.0 (Linear, softest)
+ * At boldness 50: Black Point 100, Gamma 2.0
+ * At boldness 100: Black Point 200, Gamma 4.0 (Hard threshold)
+ */
+export const getToneCurve = (boldness: number): ToneCurve => {
+  const blackPoint = Math.floor((boldness / 100) * 200);
+  const whitePoint = 255 - Math.floor(((100 - boldness) / 100) * 10); // Keep white point mostly high
+  const gamma = 1.0 + (boldness / 100) * 3.0; // 1.0 to 4.0
+  return { blackPoint, whitePoint, gamma };
+};
+
+/**
+ * Normalizes a luminance value (0-255) through the tone curve.
+ * Returns t, where 0 is full ink and 1 is background.
+ */
+export const getToneT = (luminance: number, curve: ToneCurve): number => {
+  const { blackPoint, whitePoint, gamma } = curve;
+
+  // 1. Linear Normalize based on Black/White points
+  let t = (luminance - blackPoint) / (whitePoint - blackPoint);
+
+  // Clamp 0 to 1
+  if (t < 0) t = 0;
+  if (t > 1) t = 1;
+
+  // 2. Apply Power Curve (Gamma)
+  if (t > 0 && t < 1) {
+     t = Math.pow(t, gamma);
+  }
+  return t;
+};
+
+export const MIN_PALETTE_STOPS = 2;
+export const MAX_PALETTE_STOPS = 5;
+
+// Ink adjusted to reach minContrast against paper; unchanged when it already does.
+const ensureContrast = (inkHex: string, paperHex: string, minContrast: number): string =>
+  rgbToHex(nearestCompliantColor(hexToRgb(inkHex), hexToRgb(paperHex), minContrast));
+
+/**
+ * The effective stops for a set of params.
+ * A plain target color is the two-stop map target -> background (white unless set).
+ * With params.minContrast, the first stop (ink) is adjusted against the last (paper).
+ */
+export const resolvePalette = (params: ColorizeParams): ColorStop[] => {
+  const stops = params.palette && params.palette.length >= MIN_PALETTE_STOPS
+    ? [...params.palette]
+      .sort((a, b) => a.position - b.position)
+      .map(stop => ({ color: stop.color, position: Math.min(1, Math.max(0, stop.position)) }))
+    : [
+      { color: params.targetColorHex, position: 0 },
+      { color: params.backgroundHex || '#ffffff', position: 1 },
+    ];
+
+  if (params.minContrast) {
+    stops[0] = { ...stops[0], color: ensureContrast(stops[0].color, stops[stops.length - 1].color, params.minContrast) };
+  }
+  return stops;
+};
+
+// Resolution of the t -> color lookup table; fine enough that rounding hides the steps.
+const PALETTE_LUT_SIZE = 4096;
+
+/**
+ * Precomputes the gradient map as a flat RGB table indexed by round(t * (PALETTE_LUT_SIZE - 1)).
+ * t below the first stop or above the last one clamps to that stop's color.
+ */
+export const buildPaletteLut = (stops: ColorStop[]): Uint8ClampedArray => {
+  const rgbStops = stops.map(stop => ({ ...hexToRgb(stop.color), position: stop.position }));
+  const lut = new Uint8ClampedArray(PALETTE_LUT_SIZE * 3);
+
+  let segment = 0;
+  for (let i = 0; i < PALETTE_LUT_SIZE; i++) {
+    const t = i / (PALETTE_LUT_SIZE - 1);
+    while (segment < rgbStops.length - 2 && t > rgbStops[segment + 1].position) segment++;
+
+    const from = rgbStops[segment];
+    const to = rgbStops[Math.min(segment + 1, rgbStops.length - 1)];
+    const span = to.position - from.position;
+    let local = span > 0 ? (t - from.position) / span : (t < from.position ? 0 : 1);
+    if (local < 0) local = 0;
+    if (local > 1) local = 1;
+
+    lut[i * 3]     = Math.round(from.r * (1 - local) + to.r * local);
+    lut[i * 3 + 1] = Math.round(from.g * (1 - local) + to.g * local);
+    lut[i * 3 + 2] = Math.round(from.b * (1 - local) + to.b * local);
+  }
+  return lut;
+};
+
+const lutIndex = (t: number) => Math.round(t * (PALETTE_LUT_SIZE - 1)) * 3;
+
+/**
+ * Maps a single luminance value (0-255) to its output color.
+ * Used where colors are recolored one by one, e.g. PDF content stream operators.
+ */
+export const mapLuminance = (luminance: number, params: ColorizeParams): RGB => {
+  const lut = buildPaletteLut(resolvePalette(params));
+  const idx = lutIndex(getToneT(luminance, getToneCurve(params.boldness)));
+  return { r: lut[idx], g: lut[idx + 1], b: lut[idx + 2] };
+};
+
+// The color blank paper ends up as, i.e. the last palette stop.
+export const getPaperColor = (params: ColorizeParams): RGB => {
+  const stops = resolvePalette(params);
+  return hexToRgb(stops[stops.length - 1].color);
+};
+
+// The color full-strength ink ends up as, i.e. the first palette stop.
+export const getInkColor = (params: ColorizeParams): RGB => hexToRgb(resolvePalette(params)[0].color);
+
+/**
+ * Builds a reusable luminance -> color mapper for callers recoloring many values.
+ */
+export const createLuminanceMapper = (params: ColorizeParams) => {
+  const lut = buildPaletteLut(resolvePalette(params));
+  const curve = getToneCurve(params.boldness);
+  return (luminance: number): RGB => {
+    const idx = lutIndex(getToneT(luminance, curve));
+    return { r: lut[idx], g: lut[idx + 1], b: lut[idx + 2] };
+  };
+};
+
+// Corners of a region as a polygon, in pixel coordinates.
+const regionPolygon = (region: ColorRegion, width: number, height: number): RegionPoint[] => {
+  if (region.shape === 'rect' && region.points.length >= 2) {
+    const [a, b] = region.points;
+    return [
+      { x: a.x * width, y: a.y * height },
+      { x: b.x * width, y: a.y * height },
+      { x: b.x * width, y: b.y * height },
+      { x: a.x * width, y: b.y * height },
+    ];
+  }
+  return region.points.map(p => ({ x: p.x * width, y: p.y * height }));
+};
+
+/**
+ * Rasterizes regions into a per-pixel label map (0 = no region, n = regions[n - 1]).
+ * Uses an even-odd scanline fill sampled at pixel centers so it needs no canvas.
+ */
+export const rasterizeRegionMask = (regions: ColorRegion[], width: number, height: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  const crossings: number[] = [];
+
+  regions.slice(0, 255).forEach((region, index) => {
+    const polygon = regionPolygon(region, width, height);
+    if (polygon.length < 3) return;
+
+    const label = index + 1;
+    const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(...polygon.map(p => p.y))));
+
+    for (let y = minY; y <= maxY; y++) {
+      const cy = y + 0.5;
+      crossings.length = 0;
+
+      for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const p1 = polygon[j];
+        const p2 = polygon[i];
+        if ((p1.y <= cy && p2.y > cy) || (p2.y <= cy && p1.y > cy)) {
+          crossings.push(p1.x + ((cy - p1.y) / (p2.y - p1.y)) * (p2.x - p1.x));
+        }
+      }
+      crossings.sort((a, b) => a - b);
+
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const startX = Math.max(0, Math.ceil(crossings[k] - 0.5));
+        const endX = Math.min(width - 1, Math.floor(crossings[k + 1] - 0.5));
+        mask.fill(label, y * width + startX, y * width + endX + 1);
+      }
+    }
+  });
+
+  return mask;
+};
+
+// Axis-aligned area in pixel coordinates, end-exclusive.
+export interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// A pixel counts as colored when its channels spread at least this far apart.
+const COLOR_PIXEL_CHROMA = 48;
+// Photos are searched block by block; a block is colored when this share of its pixels is.
+const PHOTO_BLOCK_SIZE = 16;
+export const COLOR_PHOTO_COVERAGE = 0.2;
+// Smaller clusters are colored text or bullets, which should still take the ink color.
+const MIN_PHOTO_BLOCKS = 6;
+
+export const isColorPixel = (r: number, g: number, b: number): boolean =>
+  Math.max(r, g, b) - Math.min(r, g, b) >= COLOR_PIXEL_CHROMA;
+
+// Whether a whole image, e.g. one embedded in a PDF, is a color picture rather than grayscale art.
+export const isColorImage = (image: PixelBuffer): boolean => {
+  const { data } = image;
+  let colored = 0;
+  let opaque = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    opaque++;
+    if (isColorPixel(data[i], data[i + 1], data[i + 2])) colored++;
+  }
+  return opaque > 0 && colored >= opaque * COLOR_PHOTO_COVERAGE;
+};
+
+/**
+ * Finds the color photos on a rendered page.
+ * Marks blocks where enough pixels are saturated, joins touching blocks
+ * (diagonals included) and returns the bounding box of every large enough cluster,
+ * so grayish patches inside a photo are covered too.
+ */
+export const detectColorPhotos = (image: PixelBuffer): PixelRect[] => {
+  const { data, width, height } = image;
+  const cols = Math.ceil(width / PHOTO_BLOCK_SIZE);
+  const rows = Math.ceil(height / PHOTO_BLOCK_SIZE);
+  const counts = new Uint32Array(cols * rows);
+  // Extent of the colored pixels in each block, so photo edges are not snapped to the block grid
+  const minXs = new Int32Array(cols * rows).fill(width);
+  const minYs = new Int32Array(cols * rows).fill(height);
+  const maxXs = new Int32Array(cols * rows);
+  const maxYs = new Int32Array(cols * rows);
+
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / PHOTO_BLOCK_SIZE) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] !== 0 && isColorPixel(data[i], data[i + 1], data[i + 2])) {
+        const block = rowOffset + Math.floor(x / PHOTO_BLOCK_SIZE);
+        counts[block]++;
+        if (x < minXs[block]) minXs[block] = x;
+        if (x > maxXs[block]) maxXs[block] = x;
+        if (y < minYs[block]) minYs[block] = y;
+        if (y > maxYs[block]) maxYs[block] = y;
+      }
+    }
+  }
+
+  const colored = new Uint8Array(cols * rows);
+  for (let by = 0; by < rows; by++) {
+    const blockHeight = Math.min(PHOTO_BLOCK_SIZE, height - by * PHOTO_BLOCK_SIZE);
+    for (let bx = 0; bx < cols; bx++) {
+      const blockWidth = Math.min(PHOTO_BLOCK_SIZE, width - bx * PHOTO_BLOCK_SIZE);
+      if (counts[by * cols + bx] >= blockWidth * blockHeight * COLOR_PHOTO_COVERAGE) colored[by * cols + bx] = 1;
+    }
+  }
+
+  const rects: PixelRect[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < colored.length; start++) {
+    if (colored[start] !== 1) continue;
+
+    let size = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    colored[start] = 2;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const block = stack.pop()!;
+      const bx = block % cols;
+      const by = (block - bx) / cols;
+      size++;
+      if (minXs[block] < minX) minX = minXs[block];
+      if (maxXs[block] > maxX) maxX = maxXs[block];
+      if (minYs[block] < minY) minY = minYs[block];
+      if (maxYs[block] > maxY) maxY = maxYs[block];
+
+      for (let ny = Math.max(0, by - 1); ny <= Math.min(rows - 1, by + 1); ny++) {
+        for (let nx = Math.max(0, bx - 1); nx <= Math.min(cols - 1, bx + 1); nx++) {
+          const next = ny * cols + nx;
+          if (colored[next] === 1) {
+            colored[next] = 2;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    if (size >= MIN_PHOTO_BLOCKS) {
+      rects.push({ x0: minX, y0: minY, x1: maxX + 1, y1: maxY + 1 });
+    }
+  }
+  return rects;
+};
+
+// Per-pixel flags for the detected photos; 1 means keep the original pixel.
+const buildPhotoMask = (image: PixelBuffer): Uint8Array | null => {
+  const rects = detectColorPhotos(image);
+  if (rects.length === 0) return null;
+
+  const mask = new Uint8Array(image.width * image.height);
+  for (const rect of rects) {
+    for (let y = rect.y0; y < rect.y1; y++) {
+      mask.fill(1, y * image.width + rect.x0, y * image.width + rect.x1);
+    }
+  }
+  return mask;
+};
+
+interface ToneMapping {
+  lut: Uint8ClampedArray;
+  curve: ToneCurve;
+  // Soft edge around the local threshold, used in adaptive mode
+  band: number;
+  // Luminance the curve maps to t=0.5, i.e. where it draws the ink outline; used by smoothEdges
+  edgeLuminance: number;
+}
+
+// Width in pixels of the ramp laid across each ink outline by smoothEdges
+const EDGE_RAMP_WIDTH = 1;
+// Luminance change per pixel below which a pixel is not treated as on an outline (flat tints, photos)
+const MIN_EDGE_GRADIENT = 8;
+
+const getEdgeLuminance = ({ blackPoint, whitePoint, gamma }: ToneCurve): number =>
+  blackPoint + Math.pow(0.5, 1 / gamma) * (whitePoint - blackPoint);
+
+const createToneMapping = (lut: Uint8ClampedArray, curve: ToneCurve, band: number): ToneMapping =>
+  ({ lut, curve, band, edgeLuminance: getEdgeLuminance(curve) });
+
+const computeLuminanceMap = ({ data, width, height }: PixelBuffer): Uint8ClampedArray => {
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let p = 0, i = 0; p < luminance.length; p++, i += 4) {
+    luminance[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return luminance;
+};
+
+/**
+ * Anti-aliased t for a pixel near the outline the tone curve draws, or null when it is not near one.
+ * The signed distance to the outline is estimated from the luminance gradient, and a ramp
+ * EDGE_RAMP_WIDTH pixels wide is laid across it, so the bolded shape gets smooth edges while
+ * everything inside it stays solid ink.
+ */
+const getEdgeT = (luminance: Uint8ClampedArray, width: number, height: number, pixel: number, edgeLuminance: number): number | null => {
+  const x = pixel % width;
+  const y = (pixel - x) / width;
+  const left = luminance[x > 0 ? pixel - 1 : pixel];
+  const right = luminance[x < width - 1 ? pixel + 1 : pixel];
+  const up = luminance[y > 0 ? pixel - width : pixel];
+  const down = luminance[y < height - 1 ? pixel + width : pixel];
+  const gradient = Math.hypot(right - left, down - up) / 2;
+  if (gradient < MIN_EDGE_GRADIENT) return null;
+
+  const distance = (luminance[pixel] - edgeLuminance) / gradient;
+  if (Math.abs(distance) >= EDGE_RAMP_WIDTH / 2) return null;
+  return 0.5 + distance / EDGE_RAMP_WIDTH;
+};
+
+// Page mapping first, then one per region. Regions share the page's paper color.
+// pageCurve replaces the curve from params.boldness for the page mapping.
+const buildToneMappings = (params: ColorizeParams, pageCurve?: ToneCurve): ToneMapping[] => {
+  const stops = resolvePalette(params);
+  const paper = stops[stops.length - 1].color;
+  const mappings: ToneMapping[] = [createToneMapping(
+    buildPaletteLut(stops),
+    pageCurve ?? getToneCurve(params.boldness),
+    getThresholdBand(pageCurve ? boldnessForCurve(pageCurve) : params.boldness),
+  )];
+
+  for (const region of params.regions ?? []) {
+    mappings.push(createToneMapping(
+      buildPaletteLut([
+        { color: params.minContrast ? ensureContrast(region.color, paper, params.minContrast) : region.color, position: 0 },
+        { color: paper, position: 1 },
+      ]),
+      getToneCurve(region.boldness),
+      getThresholdBand(region.boldness),
+    ));
+  }
+  return mappings;
+};
+
+/**
+ * Recolors RGBA pixel data in place.
+ * Maps luminance through the tone curve and then through the palette,
+ * so by default black pixels become the target color and white pixels take the background color.
+ * Pixels inside params.regions use that region's color and boldness instead.
+ * With params.preserveColorPhotos, detected color photos keep their original pixels.
+ * With params.adaptive, luminance is compared with a local threshold instead of the global curve.
+ * With params.autoBoldness, the page's tone curve comes from its histogram (see autoTone).
+ * With params.smoothEdges, pixels on the ink outline get an anti-aliasing ramp (see getEdgeT).
+ * Enabled params.cleanup steps run first, so every later step sees the cleaned page.
+ */
+export const applyColorization = (image: PixelBuffer, params: ColorizeParams): void => {
+  if (hasScanCleanup(params.cleanup)) cleanupScan(image, params.cleanup!);
+
+  const { data, width, height } = image;
+  const mappings = buildToneMappings(params, params.autoBoldness ? suggestToneCurve(computeLuminanceHistogram(image)) : undefined);
+  const mask = params.regions && params.regions.length > 0 ? rasterizeRegionMask(params.regions, width, height) : null;
+  const photoMask = params.preserveColorPhotos ? buildPhotoMask(image) : null;
+  const thresholds = params.adaptive ? computeThresholdMap(image, params.adaptive) : null;
+  // Read from a copy, since the neighbours of a pixel may already be recolored
+  const luminanceMap = params.smoothEdges && !thresholds ? computeLuminanceMap(image) : null;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i];
+    const g = data[i + 1];
+    const b = data[i + 2];
+    const a = data[i + 3];
+
+    // Skip transparent pixels
+    if (a === 0) continue;
+    if (photoMask && photoMask[i >> 2]) continue;
+
+    // Calculate human-perceived luminance
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const { lut, curve, band, edgeLuminance } = mappings[mask ? mask[i >> 2] : 0];
+    let t: number;
+    if (thresholds) {
+      const pixel = i >> 2;
+      const x = pixel % width;
+      t = getAdaptiveT(luminance, thresholdAt(thresholds, x, (pixel - x) / width), band);
+    } else {
+      t = (luminanceMap && getEdgeT(luminanceMap, width, height, i >> 2, edgeLuminance)) ?? getToneT(luminance, curve);
+    }
+
+    // Look up the gradient map
+    // t=0 => First stop (Deep ink)
+    // t=1 => Last stop (Paper / background color)
+    const idx = lutIndex(t);
+    data[i]     = lut[idx];     // Red
+    data[i + 1] = lut[idx + 1]; // Green
+    data[i + 2] = lut[idx + 2]; // Blue
+    // Alpha remains unchanged
+  }
+};
@@ -0,0 +1,97 @@
+// WCAG 2.x contrast math: luminance, contrast ratios, pass levels and the nearest shade that passes.
+import type { RGB } from './colorizeCore';
+
+export const WCAG_AA_CONTRAST = 4.5;
+export const WCAG_AAA_CONTRAST = 7;
+// AA for large text (18pt, or 14pt bold) and for graphics
+export const WCAG_AA_LARGE_CONTRAST = 3;
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+const linearize = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+export const relativeLuminance = ({ r, g, b }: RGB): number =>
+  0.2126 * linearize(r) + 0.7152 * linearize(g) + 0.0722 * linearize(b);
+
+// 1 (no contrast) to 21 (black on white)
+export const contrastRatio = (a: RGB, b: RGB): number => {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+};
+
+export const getContrastLevel = (ratio: number): ContrastLevel => {
+  if (ratio >= WCAG_AAA_CONTRAST) return 'AAA';
+  if (ratio >= WCAG_AA_CONTRAST) return 'AA';
+  if (ratio >= WCAG_AA_LARGE_CONTRAST) return 'AA Large';
+  return 'Fail';
+};
+
+interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+const rgbToHsl = ({ r, g, b }: RGB): HSL => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+  return { h: h / 6, s, l };
+};
+
+const hslToRgb = ({ h, s, l }: HSL): RGB => {
+  if (s === 0) return { r: Math.round(l * 255), g: Math.round(l * 255), b: Math.round(l * 255) };
+
+  const hueToChannel = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  return {
+    r: Math.round(hueToChannel(p, q, h + 1 / 3) * 255),
+    g: Math.round(hueToChannel(p, q, h) * 255),
+    b: Math.round(hueToChannel(p, q, h - 1 / 3) * 255),
+  };
+};
+
+/**
+ * The shade of ink closest to the original, keeping its hue and saturation,
+ * that reaches minRatio against paper. Ink is darkened on light paper and lightened on dark paper;
+ * already compliant ink is returned unchanged. If no shade gets there, the best one is returned.
+ */
+export const nearestCompliantColor = (ink: RGB, paper: RGB, minRatio: number): RGB => {
+  if (contrastRatio(ink, paper) >= minRatio) return ink;
+
+  const hsl = rgbToHsl(ink);
+  const darken = relativeLuminance(paper) >= relativeLuminance(ink);
+  const extreme = hslToRgb({ ...hsl, l: darken ? 0 : 1 });
+  if (contrastRatio(extreme, paper) < minRatio) return extreme;
+
+  // Luminance is monotonic in HSL lightness, so the boundary can be bisected
+  let passing = darken ? 0 : 1;
+  let failing = hsl.l;
+  for (let i = 0; i < 24; i++) {
+    const mid = (passing + failing) / 2;
+    if (contrastRatio(hslToRgb({ ...hsl, l: mid }), paper) >= minRatio) passing = mid;
+    else failing = mid;
+  }
+  return hslToRgb({ ...hsl, l: passing });
+};
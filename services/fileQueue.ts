@@ -0,0 +1,130 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { browserCanvasBackend } from './canvasBackend';
+import { ColorizeParams, getInkColor, getPaperColor, rgbToHex } from './colorizeCore';
+import { colorizeBitmap } from './localImageService';
+import type { PageEncodingOptions } from './pageEncoding';
+import { buildRasterPdf, RasterPdfPage } from './pdfExport';
+import { PdfOutlineItem, readPdfMetadata } from './pdfMetadata';
+import { resolveTextRules, TextRule } from './textRules';
+import { colorizePdfVector } from './vectorColorizeService';
+import { getWorkerPoolSize } from './workerPool';
+import { getPageTextLines, loadPdfDocument, renderPageToBitmap } from '../utils/pdfHelpers';
+
+export type QueuedFileStatus = 'waiting' | 'processing' | 'done' | 'failed';
+
+export interface QueuedFile {
+  id: string;
+  file: File;
+  status: QueuedFileStatus;
+  // Pages finished / total while processing
+  progress?: { current: number; total: number };
+  result?: Blob;
+  // Outline of the result, kept for bookmarks when merging
+  outline?: PdfOutlineItem[];
+  error?: string;
+}
+
+/**
+ * Document-wide settings every queued file is colorized with.
+ * Per-page overrides and hand-drawn regions belong to the open document and are not applied.
+ */
+export interface QueueSettings {
+  params: ColorizeParams;
+  textRules: TextRule[];
+  colorMode: 'raster' | 'vector';
+  scale: number;
+  marginPercent: number;
+  encoding: PageEncodingOptions;
+}
+
+export const createQueuedFile = (file: File): QueuedFile => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  file,
+  status: 'waiting',
+});
+
+const colorizeRasterPages = async (
+  pdfDoc: PDFDocumentProxy,
+  settings: QueueSettings,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<RasterPdfPage[]> => {
+  const total = pdfDoc.numPages;
+  const pages: RasterPdfPage[] = new Array(total);
+  const hasTextRules = settings.textRules.some(rule => rule.enabled);
+  let nextPage = 1;
+  let completed = 0;
+
+  const colorizePage = async (pageNumber: number) => {
+    const rendered = await renderPageToBitmap(pdfDoc, pageNumber, settings.scale);
+    const regions = hasTextRules ? resolveTextRules(await getPageTextLines(pdfDoc, pageNumber), settings.textRules) : undefined;
+    const result = await colorizeBitmap(rendered.bitmap, { ...settings.params, regions });
+    if (result.error || !result.blob) {
+      throw new Error(`Page ${pageNumber}: ${result.error || "No image was produced."}`);
+    }
+
+    pages[pageNumber - 1] = {
+      pageNumber,
+      image: result.blob,
+      width: rendered.width,
+      height: rendered.height,
+      pageWidth: rendered.pageWidth,
+      pageHeight: rendered.pageHeight,
+      paperHex: rgbToHex(getPaperColor(settings.params)),
+      inkHex: rgbToHex(getInkColor(settings.params)),
+    };
+    onProgress(++completed, total);
+  };
+
+  // Same lane scheme as a batch run: several pages in flight on the worker pool
+  const runLane = async () => {
+    while (nextPage <= total) {
+      signal?.throwIfAborted();
+      try {
+        await colorizePage(nextPage++);
+      } catch (err) {
+        // One bad page fails the file; stop the other lanes from starting more
+        nextPage = total + 1;
+        throw err;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(getWorkerPoolSize(), total) }, runLane));
+  return pages;
+};
+
+/**
+ * Colorizes a whole PDF with the given settings and returns the finished PDF.
+ * Aborting the signal stops between pages.
+ */
+export const colorizePdfFile = async (
+  file: File,
+  settings: QueueSettings,
+  onProgress: (current: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ result: Blob; outline: PdfOutlineItem[] }> => {
+  const pdfDoc = await loadPdfDocument(file);
+
+  try {
+    const metadata = await readPdfMetadata(pdfDoc);
+    let bytes: Uint8Array;
+
+    if (settings.colorMode === 'vector') {
+      onProgress(0, pdfDoc.numPages);
+      bytes = await colorizePdfVector(await file.arrayBuffer(), { ...settings.params, marginPercent: settings.marginPercent });
+      onProgress(pdfDoc.numPages, pdfDoc.numPages);
+    } else {
+      const pages = await colorizeRasterPages(pdfDoc, settings, onProgress, signal);
+      bytes = await buildRasterPdf(
+        pages,
+        { marginPercent: settings.marginPercent, metadata, encoding: settings.encoding },
+        browserCanvasBackend
+      );
+    }
+
+    return { result: new Blob([bytes], { type: 'application/pdf' }), outline: metadata.outline };
+  } finally {
+    await pdfDoc.destroy();
+  }
+};
@@ -0,0 +1,132 @@
+// Exports colorized pages as image files instead of a PDF: a ZIP of PNG, WebP or AVIF images,
+// or one multi-page TIFF. Everything is encoded locally through the canvas backend.
+import type { PixelBuffer } from './colorizeCore';
+import type { CanvasBackend, ImageMimeType } from './canvasBackend';
+import type { RasterPdfPage } from './pdfExport';
+import { createZip, ZipEntry } from './zipArchive';
+import { assembleTiff, compressTiffPage, TiffPage } from './tiffEncoder';
+
+export type ImageArchiveFormat = 'png' | 'webp' | 'avif' | 'tiff';
+
+export interface ImageArchiveOptions {
+  format: ImageArchiveFormat;
+  // Per-page file name without extension; see formatFileName
+  fileNameTemplate: string;
+  // 1-100, for WebP and AVIF
+  quality: number;
+}
+
+export const DEFAULT_FILE_NAME_TEMPLATE = '{name}_p{page:03}_{theme}';
+
+export const DEFAULT_IMAGE_ARCHIVE: ImageArchiveOptions = { format: 'png', fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE, quality: 85 };
+
+const MIME_TYPES: Record<Exclude<ImageArchiveFormat, 'tiff'>, ImageMimeType> = {
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export interface FileNameFields {
+  // Source document name without its extension
+  name: string;
+  theme: string;
+  // Source page number (1-based)
+  page: number;
+  // Position in the export (1-based), which differs from page once the page plan reorders
+  index: number;
+}
+
+// Characters that are not allowed in file names on common systems
+const UNSAFE_FILE_NAME = /[\\/:*?"<>|\u0000-\u001f]/g;
+// A template with either field gives every page its own name, as the page plan lists each page once
+const UNIQUE_FIELD = /\{(page|index)(:\d+)?\}/;
+
+// The template as archives use it: _{index} is appended when it would give every page the same name
+export const uniqueFileNameTemplate = (template: string): string =>
+  UNIQUE_FIELD.test(template) ? template : `${template}_{index}`;
+
+/**
+ * Fills {name}, {theme}, {page} and {index} in a template. Numbers take an optional
+ * zero-padded width, e.g. {page:03} gives 007. Unknown fields are left as written.
+ */
+export const formatFileName = (template: string, fields: FileNameFields): string => {
+  const filled = template.replace(/\{(\w+)(?::(\d+))?\}/g, (match, key: string, width?: string) => {
+    if (!(key in fields)) return match;
+    const value = String(fields[key as keyof FileNameFields]);
+    return width && typeof fields[key as keyof FileNameFields] === 'number' ? value.padStart(Number(width), '0') : value;
+  });
+  return filled.replace(UNSAFE_FILE_NAME, '_').trim() || `page_${fields.page}`;
+};
+
+const toBytes = async (image: RasterPdfPage['image']): Promise<Uint8Array> => {
+  if (image instanceof Uint8Array) return image;
+  if (image instanceof Blob) return new Uint8Array(await image.arrayBuffer());
+  return Uint8Array.from(atob(image.slice(image.indexOf(',') + 1)), char => char.charCodeAt(0));
+};
+
+// Turns the pixels clockwise by a multiple of 90 degrees, as the page plan rotates pages
+const rotatePixels = (image: PixelBuffer, rotation: number): PixelBuffer => {
+  const turns = (((rotation / 90) % 4) + 4) % 4;
+  if (turns === 0) return image;
+
+  const { data, width, height } = image;
+  const outWidth = turns === 2 ? width : height;
+  const outHeight = turns === 2 ? height : width;
+  const out = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [ox, oy] = turns === 1 ? [height - 1 - y, x] : turns === 2 ? [width - 1 - x, height - 1 - y] : [y, width - 1 - x];
+      out.set(data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), (oy * outWidth + ox) * 4);
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+};
+
+export interface ImageArchive {
+  data: Uint8Array;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Encodes the pages in the given order. PNG pages that need no rotation are copied as they are.
+ * File names follow options.fileNameTemplate through uniqueFileNameTemplate.
+ * TIFF pages keep their print resolution and store rotation as the TIFF orientation.
+ * Rejects when the backend cannot encode the format (e.g. AVIF in most browsers).
+ */
+export const buildImageArchive = async (
+  pages: RasterPdfPage[],
+  options: ImageArchiveOptions,
+  naming: { name: string; theme: string },
+  backend: CanvasBackend,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImageArchive> => {
+  const baseName = `${naming.name}_${naming.theme}`.replace(UNSAFE_FILE_NAME, '_');
+
+  if (options.format === 'tiff') {
+    const tiffPages: TiffPage[] = [];
+    for (const page of pages) {
+      const pixels = await backend.decodeImage(await toBytes(page.image));
+      tiffPages.push(await compressTiffPage(pixels, (page.width / page.pageWidth) * 72, page.rotation));
+      onProgress?.(tiffPages.length, pages.length);
+    }
+    return { data: assembleTiff(tiffPages), fileName: `${baseName}.tif`, mimeType: 'image/tiff' };
+  }
+
+  const type = MIME_TYPES[options.format];
+  const quality = Math.min(100, Math.max(1, options.quality)) / 100;
+  const entries: ZipEntry[] = [];
+  const template = uniqueFileNameTemplate(options.fileNameTemplate);
+
+  for (const [index, page] of pages.entries()) {
+    const source = await toBytes(page.image);
+    const data = type === 'image/png' && !page.rotation
+      ? source
+      : await backend.encodeImage(rotatePixels(await backend.decodeImage(source), page.rotation ?? 0), type, quality);
+
+    const name = `${formatFileName(template, { ...naming, page: page.pageNumber, index: index + 1 })}.${options.format}`;
+    entries.push({ name, data });
+    onProgress?.(index + 1, pages.length);
+  }
+  return { data: createZip(entries), fileName: `${baseName}.zip`, mimeType: 'application/zip' };
+};
@@ -1,105 +1,97 @@
+import { applyColorization, ColorizeParams } from './colorizeCore';
+import { cleanupScan, ScanCleanupOptions } from './scanCleanup';
+import { isWorkerPoolSupported, runColorizeJob } from './workerPool';
+import type { ColorizeTask } from './colorize.worker';
 
+// Results are PNG Blobs: far smaller in memory than data URLs, and storable in IndexedDB as they are.
 export interface ColorizationResult {
-  imageUrl?: string;
+  blob?: Blob;
   error?: string;
 }
 
-// Helper to convert hex to rgb
-const hexToRgb = (hex: string) => {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result ? {
-    r: parseInt(result[1], 16),
-    g: parseInt(result[2], 16),
-    b: parseInt(result[3], 16)
-  } : { r: 0, g: 0, b: 0 };
-}
+const canvasToPngBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Canvas could not be encoded as PNG"))), 'image/png');
+  });
+
+// Main-thread path for browsers without Worker/OffscreenCanvas support.
+const colorizeOnMainThread = async (
+  source: CanvasImageSource & { width: number; height: number },
+  params: ColorizeParams,
+  task: ColorizeTask = 'colorize'
+): Promise<ColorizationResult> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  // optimization for frequent read/write
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) {
+    return { error: "Browser Canvas context not available" };
+  }
+
+  ctx.drawImage(source, 0, 0);
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (task === 'cleanup' && params.cleanup) {
+    cleanupScan(imageData, params.cleanup);
+  } else {
+    applyColorization(imageData, params);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return { blob: await canvasToPngBlob(canvas) };
+};
 
 /**
- * Colorizes a base64 grayscale image locally using Canvas API.
- * Maps black pixels to the target color and keeps white pixels white.
- * Includes tunable contrast enhancement.
- * @param base64Image The source image
- * @param targetColorHex The target color
- * @param boldness 0-100, where 50 is default, 100 is maximum threshold (sharp/jagged), 0 is original softness.
+ * Colorizes an already decoded page bitmap.
+ * The bitmap is handed to the worker pool as a transferable and is closed afterwards.
+ * @param bitmap The source page
+ * @param params Target color or palette, and boldness (see colorizeImage)
  */
-export const colorizeImage = async (base64Image: string, targetColorHex: string, boldness: number = 60): Promise<ColorizationResult> => {
+export const colorizeBitmap = async (
+  bitmap: ImageBitmap,
+  params: ColorizeParams,
+  task: ColorizeTask = 'colorize'
+): Promise<ColorizationResult> => {
+  try {
+    if (!isWorkerPoolSupported()) {
+      const result = await colorizeOnMainThread(bitmap, params, task);
+      bitmap.close();
+      return result;
+    }
+
+    return { blob: await runColorizeJob(bitmap, params, task) };
+  } catch (e: any) {
+    console.error("Local processing error:", e);
+    return { error: "Failed to process image locally." };
+  }
+};
+
+// Shared by colorizeImage and cleanupImage: decodes the data URL and runs the task.
+const processImage = async (base64Image: string, params: ColorizeParams, task: ColorizeTask): Promise<ColorizationResult> => {
+  if (isWorkerPoolSupported()) {
+    let bitmap: ImageBitmap;
+    try {
+      const blob = await (await fetch(base64Image)).blob();
+      bitmap = await createImageBitmap(blob);
+    } catch {
+      return { error: "Failed to load image data." };
+    }
+    return colorizeBitmap(bitmap, params, task);
+  }
+
   return new Promise((resolve) => {
     const img = new Image();
-    img.crossOrigin = "Anonymous"; 
-    
+    img.crossOrigin = "Anonymous";
+
     img.onload = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        // optimization for frequent read/write
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        
-        if (!ctx) {
-          resolve({ error: "Browser Canvas context not available" });
-          return;
-        }
-
-        ctx.drawImage(img, 0, 0);
-        
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
-        const target = hexToRgb(targetColorHex);
-
-        // Map boldness (0-100) to algorithm parameters
-        // BLACK_POINT: Pixels darker than this become 100% target color.
-        // GAMMA: Curve steepness.
-        
-        // At boldness 0: Black Point 0, Gamma 1.0 (Linear, softest)
-        // At boldness 50: Black Point 100, Gamma 2.0
-        // At boldness 100: Black Point 200, Gamma 4.0 (Hard threshold)
-        
-        const blackPoint = Math.floor((boldness / 100) * 200); 
-        const whitePoint = 255 - Math.floor(((100 - boldness) / 100) * 10); // Keep white point mostly high
-        const gamma = 1.0 + (boldness / 100) * 3.0; // 1.0 to 4.0
-
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          const a = data[i + 3];
-
-          // Skip transparent pixels
-          if (a === 0) continue;
-
-          // Calculate human-perceived luminance
-          const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
-          
-          // 1. Linear Normalize based on Black/White points
-          let t = (luminance - blackPoint) / (whitePoint - blackPoint);
-          
-          // Clamp 0 to 1
-          if (t < 0) t = 0;
-          if (t > 1) t = 1;
-
-          // 2. Apply Power Curve (Gamma)
-          if (t > 0 && t < 1) {
-             t = Math.pow(t, gamma);
-          }
-
-          // Interpolate
-          // t=0 => Target Color (Deep)
-          // t=1 => White (Background)
-          data[i]     = Math.round(target.r * (1 - t) + 255 * t); // Red
-          data[i + 1] = Math.round(target.g * (1 - t) + 255 * t); // Green
-          data[i + 2] = Math.round(target.b * (1 - t) + 255 * t); // Blue
-          // Alpha remains unchanged
-        }
-
-        ctx.putImageData(imageData, 0, 0);
-        resolve({ imageUrl: canvas.toDataURL('image/png') });
-        
-      } catch (e: any) {
+      colorizeOnMainThread(img, params, task).then(resolve, (e) => {
         console.error("Local processing error:", e);
         resolve({ error: "Failed to process image locally." });
-      }
+      });
     };
-    
+
     img.onerror = () => {
       resolve({ error: "Failed to load image data." });
     };
@@ -107,3 +99,26 @@ export const colorizeImage = async (base64Image: string, targetColorHex: string,
     img.src = base64Image;
   });
 };
+
+/**
+ * Colorizes a base64 grayscale image locally.
+ * Maps black pixels to the target color and keeps white pixels white,
+ * or maps luminance through params.palette when a gradient map is given.
+ * Includes tunable contrast enhancement.
+ * @param base64Image The source image
+ * @param params.targetColorHex The target color
+ * @param params.boldness 0-100, where 50 is default, 100 is maximum threshold (sharp/jagged), 0 is original softness.
+ * @param params.smoothEdges Optional anti-aliasing of the ink outline, so high boldness keeps smooth edges
+ * @param params.palette Optional 2-5 color stops (duotone/tritone)
+ * @param params.cleanup Optional scan cleanup steps run before the mapping
+ * @param params.adaptive Optional local (Sauvola) thresholding instead of the global boldness curve
+ */
+export const colorizeImage = (base64Image: string, params: ColorizeParams): Promise<ColorizationResult> =>
+  processImage(base64Image, params, 'colorize');
+
+/**
+ * Runs only the scan cleanup steps, without any color mapping.
+ * Used to show the cleaned page next to the original.
+ */
+export const cleanupImage = (base64Image: string, cleanup: ScanCleanupOptions): Promise<ColorizationResult> =>
+  processImage(base64Image, { targetColorHex: '#000000', boldness: 0, cleanup }, 'cleanup');
@@ -0,0 +1,197 @@
+// Pixel-level encoders for exported page images. Pure, like colorizeCore.
+import { hexToRgb, PixelBuffer, RGB } from './colorizeCore';
+import { SPOT_COLOR_LIBRARY, SpotColor } from './spotColors';
+
+/**
+ * How page images are stored in the exported PDF.
+ * png: lossless full color, as rendered.
+ * jpeg: lossy, sized by jpegQuality.
+ * indexed: lossless-looking palette image with at most paletteSize colors.
+ * mask: 1-bit ink stencil painted with the ink color over a paper-colored page.
+ * separation: print output; the ink as a single spot or CMYK separation whose tint is the ink coverage,
+ * with the paper left unprinted. Single-ink pages only (see buildInkTint).
+ */
+export type PageEncoding = 'png' | 'jpeg' | 'indexed' | 'mask' | 'separation';
+
+/**
+ * spot: a Separation color space named after the ink, with its CMYK build as the alternate.
+ * cmyk: plain DeviceCMYK, full coverage printing exactly the ink's CMYK values.
+ */
+export type PrintInkMode = 'spot' | 'cmyk';
+
+export interface PrintInk {
+  mode: PrintInkMode;
+  spot: SpotColor;
+}
+
+export interface PageEncodingOptions {
+  encoding: PageEncoding;
+  jpegQuality: number; // 1-100
+  paletteSize: number; // 2-256
+  // Separation encoding only; DEFAULT_PRINT_INK when unset
+  printInk?: PrintInk;
+}
+
+export const DEFAULT_PRINT_INK: PrintInk = { mode: 'spot', spot: SPOT_COLOR_LIBRARY[0] };
+
+export const DEFAULT_PAGE_ENCODING: PageEncodingOptions = { encoding: 'png', jpegQuality: 80, paletteSize: 16 };
+
+export const MIN_PALETTE_SIZE = 2;
+export const MAX_PALETTE_SIZE = 256;
+
+export interface IndexedImage {
+  // RGB triplets, one per palette entry
+  palette: Uint8Array;
+  // Row-packed samples at bitsPerComponent, each row padded to a whole byte as PDF expects
+  samples: Uint8Array;
+  bitsPerComponent: 1 | 2 | 4 | 8;
+}
+
+const bitsForColors = (colors: number): 1 | 2 | 4 | 8 => (colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8);
+
+// Packs one small value per pixel into rows of bitsPerComponent-wide samples.
+const packSamples = (values: Uint8Array, width: number, height: number, bits: 1 | 2 | 4 | 8): Uint8Array => {
+  if (bits === 8) return values;
+  const perByte = 8 / bits;
+  const rowBytes = Math.ceil(width / perByte);
+  const packed = new Uint8Array(rowBytes * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shift = 8 - bits * ((x % perByte) + 1);
+      packed[y * rowBytes + Math.floor(x / perByte)] |= values[y * width + x] << shift;
+    }
+  }
+  return packed;
+};
+
+// 5 bits per channel: fine enough to tell gradient steps apart, small enough to histogram.
+const colorKey = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+/**
+ * Reduces an image to at most maxColors colors.
+ * Colorized pages are mostly a gradient between ink and paper, so the most frequent
+ * 15-bit colors make a good palette; each palette entry is the mean of its bin.
+ * Transparent pixels are treated as white.
+ */
+export const quantizeImage = (image: PixelBuffer, maxColors: number): IndexedImage => {
+  const { data, width, height } = image;
+  const colors = Math.min(MAX_PALETTE_SIZE, Math.max(MIN_PALETTE_SIZE, Math.round(maxColors)));
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+
+  const pixelRgb = (i: number): RGB => data[i + 3] === 0
+    ? { r: 255, g: 255, b: 255 }
+    : { r: data[i], g: data[i + 1], b: data[i + 2] };
+
+  for (let i = 0; i < data.length; i += 4) {
+    const { r, g, b } = pixelRgb(i);
+    const key = colorKey(r, g, b);
+    counts[key]++;
+    sums[key * 3] += r;
+    sums[key * 3 + 1] += g;
+    sums[key * 3 + 2] += b;
+  }
+
+  const bins: number[] = [];
+  for (let key = 0; key < counts.length; key++) {
+    if (counts[key] > 0) bins.push(key);
+  }
+  bins.sort((a, b) => counts[b] - counts[a]);
+  const chosen = bins.slice(0, colors);
+
+  const palette = new Uint8Array(Math.max(chosen.length, 1) * 3);
+  chosen.forEach((key, index) => {
+    palette[index * 3] = Math.round(sums[key * 3] / counts[key]);
+    palette[index * 3 + 1] = Math.round(sums[key * 3 + 1] / counts[key]);
+    palette[index * 3 + 2] = Math.round(sums[key * 3 + 2] / counts[key]);
+  });
+
+  // Nearest palette entry per 15-bit bin, computed once per bin that occurs
+  const lookup = new Int16Array(32768).fill(-1);
+  const nearest = (r: number, g: number, b: number) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let p = 0; p < chosen.length; p++) {
+      const dr = palette[p * 3] - r;
+      const dg = palette[p * 3 + 1] - g;
+      const db = palette[p * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  const values = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    const { r, g, b } = pixelRgb(i);
+    const key = colorKey(r, g, b);
+    if (lookup[key] === -1) lookup[key] = nearest(r, g, b);
+    values[p] = lookup[key];
+  }
+
+  const bitsPerComponent = bitsForColors(chosen.length);
+  return { palette, samples: packSamples(values, width, height, bitsPerComponent), bitsPerComponent };
+};
+
+/**
+ * Splits a page into ink and paper for the 1-bit encoding.
+ * A pixel is ink when it is closer to inkHex than to paperHex.
+ * Returns row-packed bits where 0 marks ink, matching an /ImageMask with the default /Decode [0 1].
+ */
+export const buildInkMask = (image: PixelBuffer, inkHex: string, paperHex: string): Uint8Array => {
+  const { data, width, height } = image;
+  const ink = hexToRgb(inkHex);
+  const paper = hexToRgb(paperHex);
+  const values = new Uint8Array(width * height);
+
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] === 0) {
+      values[p] = 1;
+      continue;
+    }
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const toInk = (r - ink.r) ** 2 + (g - ink.g) ** 2 + (b - ink.b) ** 2;
+    const toPaper = (r - paper.r) ** 2 + (g - paper.g) ** 2 + (b - paper.b) ** 2;
+    values[p] = toInk < toPaper ? 0 : 1;
+  }
+  return packSamples(values, width, height, 1);
+};
+
+// How far (RGB distance) a pixel may sit from the ink-paper line and still count as a mix of the two;
+// covers PNG rounding and edge smoothing
+const TINT_TOLERANCE = 24;
+// Share of pixels allowed off the line before the page counts as using other colors
+const MAX_OFF_LINE_SHARE = 0.001;
+
+/**
+ * Ink coverage per pixel for the separation encoding, 0 (paper) to 255 (solid ink).
+ * A single-ink page is painted as a mix of inkHex and paperHex, so coverage is recovered by projecting
+ * each pixel onto the line between them. Palette midtones, text rule colors and preserved photos are
+ * not on that line and cannot be printed with one ink: pages with more than a trace of them return null.
+ * Transparent pixels are paper.
+ */
+export const buildInkTint = (image: PixelBuffer, inkHex: string, paperHex: string): Uint8Array | null => {
+  const { data, width, height } = image;
+  const ink = hexToRgb(inkHex);
+  const paper = hexToRgb(paperHex);
+  const dr = paper.r - ink.r, dg = paper.g - ink.g, db = paper.b - ink.b;
+  const lengthSquared = dr * dr + dg * dg + db * db;
+  const tint = new Uint8Array(width * height);
+  // Ink and paper alike: nothing to separate, so everything counts as paper
+  if (lengthSquared === 0) return tint;
+
+  const maxOffLine = Math.floor(width * height * MAX_OFF_LINE_SHARE);
+  let offLine = 0;
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    if (data[i + 3] === 0) continue;
+    const t = Math.min(1, Math.max(0, ((data[i] - ink.r) * dr + (data[i + 1] - ink.g) * dg + (data[i + 2] - ink.b) * db) / lengthSquared));
+    const distanceSquared = (data[i] - ink.r - t * dr) ** 2 + (data[i + 1] - ink.g - t * dg) ** 2 + (data[i + 2] - ink.b - t * db) ** 2;
+    if (distanceSquared > TINT_TOLERANCE * TINT_TOLERANCE && ++offLine > maxOffLine) return null;
+    tint[p] = Math.round(255 * (1 - t));
+  }
+  return tint;
+};
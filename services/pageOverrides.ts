@@ -0,0 +1,39 @@
+// Settings a single page keeps regardless of the document-wide ones (raster mode).
+import type { ToneMode } from './adaptiveThreshold';
+
+/**
+ * Every field is optional; a missing field follows the document setting.
+ * color replaces the whole theme with a single ink on the document paper.
+ */
+export interface PageOverrides {
+  color?: string;
+  boldness?: number;
+  marginPercent?: number;
+  toneMode?: ToneMode;
+  preserveColorPhotos?: boolean;
+}
+
+export type PageOverrideKey = keyof PageOverrides;
+
+export const hasPageOverrides = (overrides: PageOverrides | undefined): boolean =>
+  !!overrides && Object.values(overrides).some(value => value !== undefined);
+
+/**
+ * Returns a copy of the per-page map with one page's fields patched.
+ * Fields set to undefined are dropped, and so is the page once nothing is left.
+ */
+export const patchPageOverrides = (
+  all: Map<number, PageOverrides>,
+  pageNumber: number,
+  patch: PageOverrides
+): Map<number, PageOverrides> => {
+  const merged: PageOverrides = { ...all.get(pageNumber), ...patch };
+  (Object.keys(merged) as PageOverrideKey[]).forEach(key => {
+    if (merged[key] === undefined) delete merged[key];
+  });
+
+  const next = new Map(all);
+  if (hasPageOverrides(merged)) next.set(pageNumber, merged);
+  else next.delete(pageNumber);
+  return next;
+};
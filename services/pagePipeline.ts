@@ -0,0 +1,50 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { applyColorization, ColorizeParams, getInkColor, getPaperColor, rgbToHex } from './colorizeCore';
+import type { CanvasBackend } from './canvasBackend';
+import type { RasterPdfPage } from './pdfExport';
+
+/**
+ * Renders one page onto a backend canvas, colorizes it in place and encodes it as PNG.
+ * This is the whole raster path without browser APIs; the CLI runs it on Node.
+ * The document should be loaded with createPdfCanvasFactory(backend) as its canvasFactory.
+ */
+export const renderColorizedPage = async (
+  pdfDoc: PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+  params: ColorizeParams,
+  backend: CanvasBackend
+): Promise<RasterPdfPage> => {
+  const page = await pdfDoc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const { width: pageWidth, height: pageHeight } = page.getViewport({ scale: 1 });
+  const width = Math.floor(viewport.width);
+  const height = Math.floor(viewport.height);
+
+  const canvas = backend.createCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas context could not be created');
+  }
+
+  try {
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+    const imageData = context.getImageData(0, 0, width, height);
+    applyColorization(imageData, params);
+    context.putImageData(imageData, 0, 0);
+
+    return {
+      pageNumber,
+      image: await backend.encodePng(canvas),
+      width,
+      height,
+      pageWidth,
+      pageHeight,
+      paperHex: rgbToHex(getPaperColor(params)),
+      inkHex: rgbToHex(getInkColor(params)),
+    };
+  } finally {
+    page.cleanup();
+  }
+};
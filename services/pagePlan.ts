@@ -0,0 +1,131 @@
+// Which source pages go into the batch and the export, in what order and rotation.
+import { degrees, PDFDocument } from 'pdf-lib';
+import type { PixelBuffer } from './colorizeCore';
+
+// Clockwise, on top of the rotation the source page already has.
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface PagePlanEntry {
+  pageNumber: number; // 1-based source page
+  rotation: PageRotation;
+}
+
+export const createPagePlan = (numPages: number): PagePlanEntry[] =>
+  Array.from({ length: numPages }, (_, i) => ({ pageNumber: i + 1, rotation: 0 }));
+
+export const rotateBy = (rotation: PageRotation, delta: number): PageRotation =>
+  ((((rotation + delta) % 360) + 360) % 360) as PageRotation;
+
+// True when the plan is every page in source order with no rotation, i.e. the export is unchanged.
+export const isIdentityPlan = (plan: PagePlanEntry[], numPages: number): boolean =>
+  plan.length === numPages && plan.every((entry, index) => entry.pageNumber === index + 1 && entry.rotation === 0);
+
+/**
+ * Parses a page range such as "1-5, 9, 12-".
+ * Open ends run to the first or last page, and "8-3" counts down.
+ * Pages listed twice keep their first position. Throws on anything out of range.
+ */
+export const parsePageRange = (text: string, numPages: number): number[] => {
+  const pages: number[] = [];
+  const seen = new Set<number>();
+
+  const toPage = (value: string, fallback: number, part: string) => {
+    if (value === '') return fallback;
+    const page = Number(value);
+    if (!Number.isInteger(page) || page < 1 || page > numPages) {
+      throw new Error(`"${part}" is outside pages 1-${numPages}`);
+    }
+    return page;
+  };
+
+  for (const raw of text.split(/[,;]/)) {
+    const part = raw.trim();
+    if (part === '') continue;
+
+    const match = /^(\d*)\s*(-?)\s*(\d*)$/.exec(part);
+    if (!match || (match[1] === '' && match[3] === '' && match[2] === '')) {
+      throw new Error(`"${part}" is not a page or range`);
+    }
+    const [, start, dash, end] = match;
+    const from = toPage(start, 1, part);
+    const to = dash ? toPage(end, numPages, part) : from;
+    if (!dash && end !== '') throw new Error(`"${part}" is not a page or range`);
+
+    const step = to >= from ? 1 : -1;
+    for (let page = from; page !== to + step; page += step) {
+      if (!seen.has(page)) {
+        seen.add(page);
+        pages.push(page);
+      }
+    }
+  }
+
+  if (pages.length === 0) throw new Error('The range does not include any pages');
+  return pages;
+};
+
+// Inverse of parsePageRange: collapses runs of consecutive pages, e.g. [1,2,3,9,12,13] -> "1-3, 9, 12-13".
+export const formatPageRange = (pages: number[]): string => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= pages.length; i++) {
+    if (i < pages.length && pages[i] === pages[i - 1] + 1) continue;
+    parts.push(i - 1 > start ? `${pages[start]}-${pages[i - 1]}` : `${pages[start]}`);
+    start = i;
+  }
+  return parts.join(', ');
+};
+
+// Share of a page that may be ink and still count as blank; leaves room for scan noise and a lone page number.
+export const BLANK_PAGE_INK_RATIO = 0.001;
+// How much darker than the paper a pixel must be to count as ink.
+const BLANK_PAGE_CONTRAST = 48;
+
+/**
+ * Tells whether a rendered page is empty.
+ * The paper level is the 90th percentile luminance, so grey scans of empty pages also count.
+ */
+export const isBlankPage = (image: PixelBuffer): boolean => {
+  const { data } = image;
+  const pixels = data.length / 4;
+  if (pixels === 0) return true;
+
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = data[i + 3] === 0 ? 255 : Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+    histogram[luminance]++;
+  }
+
+  let paper = 255;
+  for (let level = 0, seen = 0; level < 256; level++) {
+    seen += histogram[level];
+    if (seen >= pixels * 0.9) {
+      paper = level;
+      break;
+    }
+  }
+
+  let ink = 0;
+  for (let level = 0; level < paper - BLANK_PAGE_CONTRAST; level++) ink += histogram[level];
+  return ink / pixels <= BLANK_PAGE_INK_RATIO;
+};
+
+/**
+ * Rearranges an existing PDF to follow a plan: drops pages left out, reorders the rest
+ * and adds the planned rotation. Page objects are moved rather than copied, so
+ * outline entries and links that point at kept pages stay valid.
+ */
+export const applyPagePlanToPdf = async (bytes: Uint8Array, plan: PagePlanEntry[]): Promise<Uint8Array> => {
+  const doc = await PDFDocument.load(bytes);
+  const pages = doc.getPages();
+
+  for (let i = pages.length - 1; i >= 0; i--) doc.removePage(i);
+  for (const entry of plan) {
+    const page = pages[entry.pageNumber - 1];
+    if (!page) continue;
+    doc.addPage(page);
+    if (entry.rotation) page.setRotation(degrees(rotateBy(page.getRotation().angle as PageRotation, entry.rotation)));
+  }
+
+  return doc.save();
+};
@@ -0,0 +1,245 @@
+import {
+  concatTransformationMatrix,
+  degrees,
+  drawObject,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFPage,
+  PDFRef,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  setFillingRgbColor,
+} from 'pdf-lib';
+import { hexToRgb } from './colorizeCore';
+import type { CanvasBackend } from './canvasBackend';
+import { applyPdfMetadata, PdfDocumentMetadata } from './pdfMetadata';
+import {
+  buildInkMask,
+  buildInkTint,
+  DEFAULT_PAGE_ENCODING,
+  DEFAULT_PRINT_INK,
+  PageEncodingOptions,
+  PrintInk,
+  quantizeImage,
+} from './pageEncoding';
+
+export interface RasterPdfPage {
+  // Source page this image was rendered from (1-based)
+  pageNumber: number;
+  // PNG as a Blob or data URL (browser) or raw bytes (CLI)
+  image: Blob | string | Uint8Array;
+  // Rendered size in pixels
+  width: number;
+  height: number;
+  // Physical size of the source page in points, from the unscaled viewport
+  pageWidth: number;
+  pageHeight: number;
+  paperHex: string;
+  // Darkest ink color; the 1-bit mask encoding paints everything it keeps in this color
+  inkHex: string;
+  // Clockwise page rotation in degrees, a multiple of 90; the image itself stays upright
+  rotation?: number;
+  // Overrides RasterPdfOptions.marginPercent for this page
+  marginPercent?: number;
+}
+
+export interface RasterPdfOptions {
+  marginPercent: number;
+  metadata?: PdfDocumentMetadata;
+  encoding?: PageEncodingOptions;
+  // Separation encoding: the ink the plate prints. Pages colorized with another ink are refused.
+  // Defaults to the first page's ink.
+  inkHex?: string;
+}
+
+// Places an image XObject on the page, scaled to the given box in points.
+const drawXObject = (page: PDFPage, ref: PDFRef, x: number, y: number, width: number, height: number) => {
+  const name = page.node.newXObject('Im', ref);
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(width, 0, 0, height, x, y),
+    drawObject(name),
+    popGraphicsState()
+  );
+};
+
+const toHex = (bytes: Uint8Array) => PDFHexString.of(Array.from(bytes, b => b.toString(16).padStart(2, '0')).join(''));
+
+/**
+ * Image XObject printing only the given ink, with tint (0-255 coverage per pixel) as its samples.
+ * Spot inks use a Separation color space whose tint transform scales the CMYK build linearly,
+ * so proofs and printers without the plate see the process equivalent.
+ */
+const embedSeparationImage = (doc: PDFDocument, width: number, height: number, tint: Uint8Array, printInk: PrintInk): PDFRef => {
+  const context = doc.context;
+  const cmyk = printInk.spot.cmyk.map(value => Math.min(100, Math.max(0, value)) / 100);
+  const image = { Type: 'XObject', Subtype: 'Image', Width: width, Height: height, BitsPerComponent: 8 };
+
+  if (printInk.mode === 'cmyk') {
+    const samples = new Uint8Array(tint.length * 4);
+    for (let p = 0; p < tint.length; p++) {
+      for (let k = 0; k < 4; k++) samples[p * 4 + k] = Math.round(tint[p] * cmyk[k]);
+    }
+    return context.register(context.flateStream(samples, { ...image, ColorSpace: 'DeviceCMYK' }));
+  }
+
+  const tintTransform = context.obj({ FunctionType: 2, Domain: [0, 1], C0: [0, 0, 0, 0], C1: cmyk, N: 1 });
+  const colorSpace = context.obj([PDFName.of('Separation'), PDFName.of(printInk.spot.name), PDFName.of('DeviceCMYK'), tintTransform]);
+  return context.register(context.flateStream(tint, { ...image, ColorSpace: colorSpace }));
+};
+
+// Embeds and draws one page image in the requested encoding.
+// Resolves false, drawing nothing, for a separation page that uses colors besides its ink and paper.
+const drawPageImage = async (
+  doc: PDFDocument,
+  page: PDFPage,
+  source: RasterPdfPage,
+  encoding: PageEncodingOptions,
+  backend: CanvasBackend,
+  margin: number
+): Promise<boolean> => {
+  const box = { x: margin, y: margin, width: source.pageWidth, height: source.pageHeight };
+  const image = source.image instanceof Blob ? new Uint8Array(await source.image.arrayBuffer()) : source.image;
+
+  if (encoding.encoding === 'png') {
+    page.drawImage(await doc.embedPng(image), box);
+    return true;
+  }
+
+  const pixels = await backend.decodeImage(image);
+
+  if (encoding.encoding === 'jpeg') {
+    const jpeg = await backend.encodeJpeg(pixels, Math.min(100, Math.max(1, encoding.jpegQuality)) / 100);
+    page.drawImage(await doc.embedJpg(jpeg), box);
+    return true;
+  }
+
+  const context = doc.context;
+
+  if (encoding.encoding === 'separation') {
+    const tint = buildInkTint(pixels, source.inkHex, source.paperHex);
+    if (!tint) return false;
+    const ref = embedSeparationImage(doc, pixels.width, pixels.height, tint, encoding.printInk ?? DEFAULT_PRINT_INK);
+    drawXObject(page, ref, box.x, box.y, box.width, box.height);
+    return true;
+  }
+
+  if (encoding.encoding === 'indexed') {
+    const { palette, samples, bitsPerComponent } = quantizeImage(pixels, encoding.paletteSize);
+    const ref = context.register(context.flateStream(samples, {
+      Type: 'XObject',
+      Subtype: 'Image',
+      Width: pixels.width,
+      Height: pixels.height,
+      ColorSpace: [context.obj('Indexed'), context.obj('DeviceRGB'), palette.length / 3 - 1, toHex(palette)],
+      BitsPerComponent: bitsPerComponent,
+    }));
+    drawXObject(page, ref, box.x, box.y, box.width, box.height);
+    return true;
+  }
+
+  // 1-bit mask: paper under the image area, then the stencil painted in the ink color
+  const paper = hexToRgb(source.paperHex);
+  const ink = hexToRgb(source.inkHex);
+  page.drawRectangle({ ...box, color: rgb(paper.r / 255, paper.g / 255, paper.b / 255) });
+
+  const ref = context.register(context.flateStream(buildInkMask(pixels, source.inkHex, source.paperHex), {
+    Type: 'XObject',
+    Subtype: 'Image',
+    Width: pixels.width,
+    Height: pixels.height,
+    ImageMask: true,
+    BitsPerComponent: 1,
+  }));
+  page.pushOperators(pushGraphicsState(), setFillingRgbColor(ink.r / 255, ink.g / 255, ink.b / 255));
+  drawXObject(page, ref, box.x, box.y, box.width, box.height);
+  page.pushOperators(popGraphicsState());
+  return true;
+};
+
+/**
+ * Assembles colorized page images into a PDF, one page per image.
+ * Each page keeps the source page's physical size plus marginPercent of its width
+ * on every side (per page if the page sets its own), so the image lands at the DPI it was rendered at.
+ * Margins take the paper color so dark or tinted pages have no white frame, except in the separation
+ * encoding, where the paper is the stock the page is printed on. A separation prints one ink, so it
+ * rejects, naming the pages, when any page has another ink (see RasterPdfOptions.inkHex) or other colors.
+ * Images are stored as options.encoding describes; anything but PNG is re-encoded through the backend.
+ * Shared by the download button and the CLI.
+ */
+export const buildRasterPdf = async (
+  pages: RasterPdfPage[],
+  options: RasterPdfOptions,
+  backend: CanvasBackend
+): Promise<Uint8Array> => {
+  const encoding = options.encoding ?? DEFAULT_PAGE_ENCODING;
+  // Info is copied from the source below, so pdf-lib should not stamp its own
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const separationInk = (options.inkHex ?? pages[0]?.inkHex ?? '').toLowerCase();
+  const unseparable: number[] = [];
+
+  for (const source of pages) {
+    const { pageWidth, pageHeight, paperHex } = source;
+    if (encoding.encoding === 'separation' && source.inkHex.toLowerCase() !== separationInk) {
+      unseparable.push(source.pageNumber);
+      continue;
+    }
+    const margin = pageWidth * ((source.marginPercent ?? options.marginPercent) / 100);
+    const page = doc.addPage([pageWidth + margin * 2, pageHeight + margin * 2]);
+
+    if (margin > 0 && paperHex.toLowerCase() !== '#ffffff' && encoding.encoding !== 'separation') {
+      const paper = hexToRgb(paperHex);
+      page.drawRectangle({
+        x: 0,
+        y: 0,
+        width: page.getWidth(),
+        height: page.getHeight(),
+        color: rgb(paper.r / 255, paper.g / 255, paper.b / 255),
+      });
+    }
+
+    if (!(await drawPageImage(doc, page, source, encoding, backend, margin))) unseparable.push(source.pageNumber);
+    if (source.rotation) page.setRotation(degrees(source.rotation));
+  }
+
+  if (unseparable.length > 0) {
+    const list = unseparable.length === 1 ? `Page ${unseparable[0]} uses` : `Pages ${unseparable.join(', ')} use`;
+    throw new Error(`${list} colors other than the print ink and cannot be printed as a separation. ` +
+      'Export them with another encoding, or colorize them with a single ink.');
+  }
+
+  if (options.metadata) {
+    applyPdfMetadata(doc, options.metadata, pages.map(page => page.pageNumber));
+  }
+
+  return doc.save();
+};
+
+// Pages encoded to estimate from; more is slower but steadier on mixed documents.
+const ESTIMATE_SAMPLE_PAGES = 2;
+
+/**
+ * Estimates the exported file size in bytes by encoding a few evenly spaced pages
+ * and extrapolating to the whole document.
+ */
+export const estimateRasterPdfSize = async (
+  pages: RasterPdfPage[],
+  options: RasterPdfOptions,
+  backend: CanvasBackend
+): Promise<number> => {
+  if (pages.length === 0) return 0;
+
+  const sampleCount = Math.min(ESTIMATE_SAMPLE_PAGES, pages.length);
+  const samples = Array.from({ length: sampleCount }, (_, i) =>
+    pages[Math.floor((i * (pages.length - 1)) / Math.max(1, sampleCount - 1))]
+  );
+  const [empty, sampled] = await Promise.all([
+    buildRasterPdf([], { ...options, metadata: undefined }, backend),
+    buildRasterPdf(samples, { ...options, metadata: undefined }, backend),
+  ]);
+
+  const perPage = (sampled.length - empty.length) / sampleCount;
+  return Math.round(empty.length + perPage * pages.length);
+};
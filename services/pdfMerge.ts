@@ -0,0 +1,47 @@
+import { PDFDocument } from 'pdf-lib';
+import { PdfOutlineItem, setPdfOutline } from './pdfMetadata';
+
+export interface MergePart {
+  // Bookmark title for this part, usually the file name
+  title: string;
+  bytes: Uint8Array;
+  // The part's own outline, with page numbers counted within the part; nested under its bookmark
+  outline?: PdfOutlineItem[];
+}
+
+const shiftOutline = (items: PdfOutlineItem[], offset: number): PdfOutlineItem[] =>
+  items.map(item => ({
+    ...item,
+    pageNumber: item.pageNumber === null ? null : item.pageNumber + offset,
+    items: shiftOutline(item.items, offset),
+  }));
+
+/**
+ * Concatenates PDFs in order into one document with a top-level bookmark per part
+ * pointing at its first page.
+ */
+export const mergePdfs = async (parts: MergePart[]): Promise<Uint8Array> => {
+  const merged = await PDFDocument.create();
+  const outline: PdfOutlineItem[] = [];
+
+  for (const part of parts) {
+    const source = await PDFDocument.load(part.bytes);
+    const offset = merged.getPageCount();
+    const pages = await merged.copyPages(source, source.getPageIndices());
+    pages.forEach(page => merged.addPage(page));
+    if (pages.length === 0) continue;
+
+    outline.push({
+      title: part.title,
+      pageNumber: offset + 1,
+      url: null,
+      bold: false,
+      italic: false,
+      color: null,
+      items: shiftOutline(part.outline ?? [], offset),
+    });
+  }
+
+  setPdfOutline(merged, outline);
+  return merged.save();
+};
@@ -0,0 +1,296 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFRef } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface PdfDocumentInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: Date;
+  modDate?: Date;
+}
+
+export interface PdfOutlineItem {
+  title: string;
+  // 1-based source page the item points to, if it has an internal destination
+  pageNumber: number | null;
+  url: string | null;
+  bold: boolean;
+  italic: boolean;
+  // 0-255 RGB, or null for the viewer's default
+  color: [number, number, number] | null;
+  items: PdfOutlineItem[];
+}
+
+/**
+ * What the export carries over from the source document.
+ * pageLabels is indexed by source page number - 1, or null when the source has none.
+ */
+export interface PdfDocumentMetadata {
+  info: PdfDocumentInfo;
+  outline: PdfOutlineItem[];
+  pageLabels: string[] | null;
+}
+
+// PDF date strings: D:YYYYMMDDHHmmSSOHH'mm' with everything after the year optional.
+const parsePdfDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/.exec(value);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, tzHour = '00', tzMinute = '00'] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  const offset = (sign === '+' || sign === '-') ? (sign === '-' ? -1 : 1) * (+tzHour * 60 + +tzMinute) : 0;
+  const date = new Date(utc - offset * 60_000);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const infoString = (info: Record<string, unknown>, key: string): string | undefined => {
+  const value = info[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+type RawOutline = Awaited<ReturnType<PDFDocumentProxy['getOutline']>>;
+
+const resolveOutline = async (pdfDoc: PDFDocumentProxy, items: RawOutline): Promise<PdfOutlineItem[]> => {
+  const resolved: PdfOutlineItem[] = [];
+
+  for (const item of items ?? []) {
+    let pageNumber: number | null = null;
+    try {
+      const dest = typeof item.dest === 'string' ? await pdfDoc.getDestination(item.dest) : item.dest;
+      const target = dest?.[0];
+      if (typeof target === 'number') {
+        pageNumber = target + 1;
+      } else if (target && typeof target === 'object') {
+        pageNumber = (await pdfDoc.getPageIndex(target)) + 1;
+      }
+    } catch {
+      // Broken destinations keep the item as a plain heading
+    }
+
+    resolved.push({
+      title: item.title,
+      pageNumber,
+      url: item.url ?? null,
+      bold: item.bold,
+      italic: item.italic,
+      color: item.color && (item.color[0] || item.color[1] || item.color[2])
+        ? [item.color[0], item.color[1], item.color[2]]
+        : null,
+      items: await resolveOutline(pdfDoc, item.items),
+    });
+  }
+  return resolved;
+};
+
+/**
+ * Reads document info, outline and page labels through pdf.js.
+ * Outline destinations are resolved to page numbers here, since the export
+ * builds a new document whose page objects have nothing in common with the source.
+ */
+export const readPdfMetadata = async (pdfDoc: PDFDocumentProxy): Promise<PdfDocumentMetadata> => {
+  const [{ info }, outline, pageLabels] = await Promise.all([
+    pdfDoc.getMetadata().catch(() => ({ info: {} })),
+    pdfDoc.getOutline().catch(() => null),
+    pdfDoc.getPageLabels().catch(() => null),
+  ]);
+  const raw = info as Record<string, unknown>;
+
+  return {
+    info: {
+      title: infoString(raw, 'Title'),
+      author: infoString(raw, 'Author'),
+      subject: infoString(raw, 'Subject'),
+      keywords: infoString(raw, 'Keywords'),
+      creator: infoString(raw, 'Creator'),
+      producer: infoString(raw, 'Producer'),
+      creationDate: parsePdfDate(raw.CreationDate),
+      modDate: parsePdfDate(raw.ModDate),
+    },
+    outline: await resolveOutline(pdfDoc, outline),
+    pageLabels,
+  };
+};
+
+const ROMAN_NUMERALS: [number, string][] = [
+  [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+  [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+];
+
+const toRoman = (value: number): string => {
+  let out = '';
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (value >= amount) {
+      out += numeral;
+      value -= amount;
+    }
+  }
+  return out;
+};
+
+const fromRoman = (text: string): number | null => {
+  let value = 0;
+  let rest = text.toLowerCase();
+  for (const [amount, numeral] of ROMAN_NUMERALS) {
+    while (rest.startsWith(numeral)) {
+      value += amount;
+      rest = rest.slice(numeral.length);
+    }
+  }
+  // Only canonical numerals, so "iiii" or "vx" stay plain text
+  return rest === '' && value > 0 && toRoman(value) === text.toLowerCase() ? value : null;
+};
+
+interface LabelRange {
+  startIndex: number;
+  prefix: string;
+  style: 'D' | 'r' | 'R' | null;
+  first: number;
+  count: number;
+}
+
+// Splits a label into prefix + number in one of the PDF numbering styles.
+const parseLabel = (label: string): Omit<LabelRange, 'startIndex' | 'count'> => {
+  const decimal = /^(.*?)([1-9]\d*)$/.exec(label);
+  if (decimal) return { prefix: decimal[1], style: 'D', first: Number(decimal[2]) };
+
+  const roman = /^(.*?)([ivxlcdm]+|[IVXLCDM]+)$/.exec(label);
+  const romanValue = roman ? fromRoman(roman[2]) : null;
+  if (roman && romanValue) {
+    return { prefix: roman[1], style: roman[2] === roman[2].toLowerCase() ? 'r' : 'R', first: romanValue };
+  }
+  return { prefix: label, style: null, first: 1 };
+};
+
+// Groups per-page labels back into the ranges a /PageLabels number tree describes.
+const compressPageLabels = (labels: string[]): LabelRange[] => {
+  const ranges: LabelRange[] = [];
+  labels.forEach((label, index) => {
+    const parsed = parseLabel(label);
+    const last = ranges[ranges.length - 1];
+    const continues = last && last.prefix === parsed.prefix && last.style === parsed.style &&
+      (parsed.style === null || parsed.first === last.first + last.count);
+
+    if (continues) last.count++;
+    else ranges.push({ ...parsed, startIndex: index, count: 1 });
+  });
+  return ranges;
+};
+
+const isDefaultLabeling = (ranges: LabelRange[]) =>
+  ranges.length === 1 && ranges[0].style === 'D' && ranges[0].prefix === '' && ranges[0].first === 1;
+
+const writePageLabels = (doc: PDFDocument, labels: string[]) => {
+  const ranges = compressPageLabels(labels);
+  if (ranges.length === 0 || isDefaultLabeling(ranges)) return;
+
+  const context = doc.context;
+  const nums: (PDFNumber | PDFDict)[] = [];
+  for (const range of ranges) {
+    const entry = context.obj({}) as PDFDict;
+    if (range.style) entry.set(PDFName.of('S'), PDFName.of(range.style));
+    if (range.prefix) entry.set(PDFName.of('P'), PDFHexString.fromText(range.prefix));
+    if (range.style && range.first !== 1) entry.set(PDFName.of('St'), PDFNumber.of(range.first));
+    nums.push(PDFNumber.of(range.startIndex), entry);
+  }
+  doc.catalog.set(PDFName.of('PageLabels'), context.obj({ Nums: nums }));
+};
+
+// Drops items pointing at pages that were not exported, unless they still have children.
+const filterOutline = (items: PdfOutlineItem[], pageMap: Map<number, number>): PdfOutlineItem[] =>
+  items.flatMap(item => {
+    const children = filterOutline(item.items, pageMap);
+    const pointsHere = item.pageNumber !== null && pageMap.has(item.pageNumber);
+    if (item.pageNumber !== null && !pointsHere && !item.url && children.length === 0) return [];
+    return [{ ...item, pageNumber: pointsHere ? item.pageNumber : null, items: children }];
+  });
+
+// Writes one level of outline items and returns the number of visible descendants (for /Count).
+const writeOutlineLevel = (
+  doc: PDFDocument,
+  items: PdfOutlineItem[],
+  parent: PDFRef,
+  pageMap: Map<number, number>
+): { first: PDFRef; last: PDFRef; count: number } => {
+  const context = doc.context;
+  const pages = doc.getPages();
+  const refs = items.map(() => context.nextRef());
+  let count = 0;
+
+  items.forEach((item, index) => {
+    const dict = context.obj({}) as PDFDict;
+    dict.set(PDFName.of('Title'), PDFHexString.fromText(item.title));
+    dict.set(PDFName.of('Parent'), parent);
+    if (index > 0) dict.set(PDFName.of('Prev'), refs[index - 1]);
+    if (index < items.length - 1) dict.set(PDFName.of('Next'), refs[index + 1]);
+
+    if (item.pageNumber !== null) {
+      const page = pages[pageMap.get(item.pageNumber)!];
+      dict.set(PDFName.of('Dest'), context.obj([page.ref, PDFName.of('Fit')]));
+    } else if (item.url) {
+      dict.set(PDFName.of('A'), context.obj({ S: 'URI', URI: PDFHexString.fromText(item.url) }));
+    }
+
+    if (item.color) {
+      dict.set(PDFName.of('C'), context.obj(item.color.map(c => c / 255)));
+    }
+    const flags = (item.italic ? 1 : 0) | (item.bold ? 2 : 0);
+    if (flags) dict.set(PDFName.of('F'), PDFNumber.of(flags));
+
+    count++;
+    if (item.items.length > 0) {
+      const children = writeOutlineLevel(doc, item.items, refs[index], pageMap);
+      dict.set(PDFName.of('First'), children.first);
+      dict.set(PDFName.of('Last'), children.last);
+      // Negative count: children start collapsed, as in most viewers' defaults
+      dict.set(PDFName.of('Count'), PDFNumber.of(-children.count));
+    }
+    context.assign(refs[index], dict);
+  });
+
+  return { first: refs[0], last: refs[refs.length - 1], count };
+};
+
+const writeOutline = (doc: PDFDocument, outline: PdfOutlineItem[], pageMap: Map<number, number>) => {
+  if (outline.length === 0) return;
+  const rootRef = doc.context.nextRef();
+  const { first, last, count } = writeOutlineLevel(doc, outline, rootRef, pageMap);
+  doc.context.assign(rootRef, doc.context.obj({ Type: 'Outlines', First: first, Last: last, Count: count }));
+  doc.catalog.set(PDFName.of('Outlines'), rootRef);
+};
+
+/**
+ * Copies source metadata onto an exported document.
+ * sourcePages[i] is the source page number that became page i of the export,
+ * so outline destinations and page labels follow pages that were reordered or dropped.
+ */
+export const applyPdfMetadata = (doc: PDFDocument, metadata: PdfDocumentMetadata, sourcePages: number[]) => {
+  const { info } = metadata;
+  if (info.title) doc.setTitle(info.title);
+  if (info.author) doc.setAuthor(info.author);
+  if (info.subject) doc.setSubject(info.subject);
+  if (info.keywords) doc.setKeywords([info.keywords]);
+  if (info.creator) doc.setCreator(info.creator);
+  if (info.producer) doc.setProducer(info.producer);
+  if (info.creationDate) doc.setCreationDate(info.creationDate);
+  if (info.modDate) doc.setModificationDate(info.modDate);
+
+  const pageMap = new Map(sourcePages.map((pageNumber, index) => [pageNumber, index]));
+
+  if (metadata.pageLabels) {
+    writePageLabels(doc, sourcePages.map(pageNumber => metadata.pageLabels![pageNumber - 1] ?? String(pageNumber)));
+  }
+
+  writeOutline(doc, filterOutline(metadata.outline, pageMap), pageMap);
+};
+
+/**
+ * Replaces the document outline. Item page numbers are pages of doc itself (1-based).
+ */
+export const setPdfOutline = (doc: PDFDocument, outline: PdfOutlineItem[]) => {
+  const pageMap = new Map(doc.getPages().map((_, index) => [index + 1, index]));
+  writeOutline(doc, filterOutline(outline, pageMap), pageMap);
+};
@@ -0,0 +1,144 @@
+// Saved projects: the source PDF, its settings and every colorized page, so a reload loses nothing.
+import {
+  BATCH_RUNS_STORE,
+  openAppDb,
+  PROJECT_FILES_STORE,
+  PROJECT_PAGES_STORE,
+  projectRange,
+  PROJECTS_STORE,
+  requestToPromise,
+  transactionDone,
+} from './appDb';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  // Identifies the source file across reloads without reading its contents
+  fileKey: string;
+  size: number;
+  numPages: number;
+  createdAt: number;
+  updatedAt: number;
+  // Small PNG of the first page for the recent projects list
+  thumbnail?: Blob;
+}
+
+// settings is owned by the caller and must be structured-cloneable.
+export interface StoredProject<TSettings> extends ProjectSummary {
+  settings?: TSettings;
+}
+
+export interface LoadedProject<TSettings, TPage> {
+  project: StoredProject<TSettings>;
+  file: File;
+  pages: Map<number, TPage>;
+}
+
+export const getFileKey = (file: File): string => `${file.name}:${file.size}:${file.lastModified}`;
+
+const newProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createProject = async (file: File, numPages: number, thumbnail?: Blob): Promise<ProjectSummary> => {
+  const now = Date.now();
+  const project: ProjectSummary = {
+    id: newProjectId(),
+    name: file.name,
+    fileKey: getFileKey(file),
+    size: file.size,
+    numPages,
+    createdAt: now,
+    updatedAt: now,
+    thumbnail,
+  };
+
+  const db = await openAppDb();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_FILES_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  // Stored as a Blob with its modification time so the reopened File has the same key
+  transaction.objectStore(PROJECT_FILES_STORE).put({ blob: file, lastModified: file.lastModified }, project.id);
+  await transactionDone(transaction);
+  return project;
+};
+
+// Most recently used first
+export const listProjects = async (): Promise<(ProjectSummary & { colorizedCount: number })[]> => {
+  const db = await openAppDb();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_PAGES_STORE], 'readonly');
+  const projects = await requestToPromise<StoredProject<unknown>[]>(transaction.objectStore(PROJECTS_STORE).getAll());
+  const pages = transaction.objectStore(PROJECT_PAGES_STORE);
+  const counts = await Promise.all(projects.map(project => requestToPromise(pages.count(projectRange(project.id)))));
+
+  return projects
+    .map(({ settings: _settings, ...summary }, index) => ({ ...summary, colorizedCount: counts[index] }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// The most recent project for the file that has colorized pages, else the most recent one
+export const findProjectByFileKey = async (fileKey: string): Promise<ProjectSummary | null> => {
+  const matches = (await listProjects()).filter(project => project.fileKey === fileKey);
+  return matches.find(project => project.colorizedCount > 0) ?? matches[0] ?? null;
+};
+
+export const loadProject = async <TSettings, TPage>(id: string): Promise<LoadedProject<TSettings, TPage> | null> => {
+  const db = await openAppDb();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_FILES_STORE, PROJECT_PAGES_STORE], 'readonly');
+  const pagesStore = transaction.objectStore(PROJECT_PAGES_STORE);
+  // All requests are issued before the first await, so the transaction cannot close in between
+  const [project, source, keys, values] = await Promise.all([
+    requestToPromise<StoredProject<TSettings> | undefined>(transaction.objectStore(PROJECTS_STORE).get(id)),
+    requestToPromise<{ blob: Blob; lastModified: number } | undefined>(transaction.objectStore(PROJECT_FILES_STORE).get(id)),
+    requestToPromise(pagesStore.getAllKeys(projectRange(id))),
+    requestToPromise<TPage[]>(pagesStore.getAll(projectRange(id))),
+  ]);
+  if (!project || !source) return null;
+
+  return {
+    project,
+    file: new File([source.blob], project.name, { type: 'application/pdf', lastModified: source.lastModified }),
+    pages: new Map(keys.map((key, index) => [(key as [string, number])[1], values[index]])),
+  };
+};
+
+// Read-modify-write of the project record inside one transaction.
+const updateProject = async (id: string, patch: (project: StoredProject<unknown>) => StoredProject<unknown>) => {
+  const db = await openAppDb();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  const store = transaction.objectStore(PROJECTS_STORE);
+  const request = store.get(id);
+  request.onsuccess = () => {
+    if (request.result) store.put(patch(request.result));
+  };
+  await transactionDone(transaction);
+};
+
+export const saveProjectSettings = <TSettings>(id: string, settings: TSettings): Promise<void> =>
+  updateProject(id, project => ({ ...project, settings, updatedAt: Date.now() }));
+
+/**
+ * Writes changed pages and drops removed ones in a single transaction.
+ */
+export const saveProjectPages = async <TPage>(id: string, changed: Map<number, TPage>, removed: number[] = []): Promise<void> => {
+  if (changed.size === 0 && removed.length === 0) return;
+  const db = await openAppDb();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_PAGES_STORE], 'readwrite');
+  const pages = transaction.objectStore(PROJECT_PAGES_STORE);
+  changed.forEach((page, pageNumber) => pages.put(page, [id, pageNumber]));
+  removed.forEach(pageNumber => pages.delete([id, pageNumber]));
+
+  const projects = transaction.objectStore(PROJECTS_STORE);
+  const request = projects.get(id);
+  request.onsuccess = () => {
+    if (request.result) projects.put({ ...request.result, updatedAt: Date.now() });
+  };
+  await transactionDone(transaction);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openAppDb();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_FILES_STORE, PROJECT_PAGES_STORE, BATCH_RUNS_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(PROJECT_FILES_STORE).delete(id);
+  transaction.objectStore(PROJECT_PAGES_STORE).delete(projectRange(id));
+  transaction.objectStore(BATCH_RUNS_STORE).delete(id);
+  await transactionDone(transaction);
+};
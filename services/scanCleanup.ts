@@ -0,0 +1,361 @@
+// Preprocessing for scanned pages, run on the raw pixels before the color mapping:
+// background flattening, despeckling and deskewing, each usable on its own.
+import type { PixelBuffer, RGB } from './colorizeCore';
+
+export interface ScanCleanupOptions {
+  // Divides out uneven grey or yellowed paper so the background becomes white.
+  flattenBackground: boolean;
+  // Removes small isolated dark specks left by dust and photocopiers.
+  despeckle: boolean;
+  // Detects a few degrees of rotation and turns the page back upright.
+  deskew: boolean;
+}
+
+export const NO_SCAN_CLEANUP: ScanCleanupOptions = { flattenBackground: false, despeckle: false, deskew: false };
+
+export const hasScanCleanup = (options?: ScanCleanupOptions): boolean =>
+  !!options && (options.flattenBackground || options.despeckle || options.deskew);
+
+const luminanceAt = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+// Share of each block's pixels that are assumed to be ink; the brightest rest is the paper.
+const PAPER_PERCENTILE = 0.9;
+// Blocks whose paper estimate is darker than this are solid ink or photos and borrow the page's paper.
+const MIN_PAPER_LUMINANCE = 96;
+
+/**
+ * Estimates the paper color on a coarse block grid and divides it out of every pixel,
+ * interpolating between block centers so lighting gradients come out smooth.
+ */
+export const flattenBackground = (image: PixelBuffer): void => {
+  const { data, width, height } = image;
+  const blockSize = Math.max(16, Math.round(Math.min(width, height) / 40));
+  const cols = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+  const blocks = cols * rows;
+
+  // Pass 1: per-block luminance histograms give each block's paper threshold.
+  const histograms = new Uint32Array(blocks * 256);
+  const totals = new Uint32Array(blocks);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / blockSize) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const block = rowOffset + Math.floor(x / blockSize);
+      histograms[block * 256 + Math.round(luminanceAt(data, i))]++;
+      totals[block]++;
+    }
+  }
+
+  const thresholds = new Uint8Array(blocks);
+  for (let block = 0; block < blocks; block++) {
+    const target = totals[block] * PAPER_PERCENTILE;
+    let seen = 0;
+    let level = 0;
+    while (level < 255 && seen + histograms[block * 256 + level] <= target) {
+      seen += histograms[block * 256 + level];
+      level++;
+    }
+    thresholds[block] = level;
+  }
+
+  // Pass 2: the paper color is the mean of the pixels at or above the threshold.
+  const sums = new Float64Array(blocks * 3);
+  const counts = new Uint32Array(blocks);
+  for (let y = 0; y < height; y++) {
+    const rowOffset = Math.floor(y / blockSize) * cols;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      const block = rowOffset + Math.floor(x / blockSize);
+      if (luminanceAt(data, i) < thresholds[block]) continue;
+      sums[block * 3] += data[i];
+      sums[block * 3 + 1] += data[i + 1];
+      sums[block * 3 + 2] += data[i + 2];
+      counts[block]++;
+    }
+  }
+
+  const paper = new Float32Array(blocks * 3);
+  const valid: number[] = [];
+  for (let block = 0; block < blocks; block++) {
+    if (counts[block] === 0) continue;
+    const r = sums[block * 3] / counts[block];
+    const g = sums[block * 3 + 1] / counts[block];
+    const b = sums[block * 3 + 2] / counts[block];
+    if (0.299 * r + 0.587 * g + 0.114 * b < MIN_PAPER_LUMINANCE) continue;
+    paper.set([r, g, b], block * 3);
+    valid.push(block);
+  }
+  if (valid.length === 0) return;
+
+  // Blocks without usable paper take the median paper of the page.
+  const median = (channel: number) => {
+    const values = valid.map(block => paper[block * 3 + channel]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  const fallback = [median(0), median(1), median(2)];
+  const isValid = new Uint8Array(blocks);
+  valid.forEach(block => { isValid[block] = 1; });
+  for (let block = 0; block < blocks; block++) {
+    if (!isValid[block]) paper.set(fallback, block * 3);
+  }
+
+  // Bilinear interpolation between block centers, then divide each channel by the paper.
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(rows - 1, Math.max(0, (y + 0.5) / blockSize - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(rows - 1, y0 + 1);
+    const wy = fy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+
+      const fx = Math.min(cols - 1, Math.max(0, (x + 0.5) / blockSize - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(cols - 1, x0 + 1);
+      const wx = fx - x0;
+
+      const a = (y0 * cols + x0) * 3;
+      const b = (y0 * cols + x1) * 3;
+      const c = (y1 * cols + x0) * 3;
+      const d = (y1 * cols + x1) * 3;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = paper[a + ch] * (1 - wx) + paper[b + ch] * wx;
+        const bottom = paper[c + ch] * (1 - wx) + paper[d + ch] * wx;
+        const bg = top * (1 - wy) + bottom * wy;
+        data[i + ch] = bg > 0 ? (data[i + ch] * 255) / bg : 255;
+      }
+    }
+  }
+};
+
+// Pixels darker than this count as ink for despeckling and skew detection.
+const INK_LUMINANCE = 128;
+
+/**
+ * Erases small dark components with no other ink nearby.
+ * The isolation check keeps dots of i/j and punctuation, which sit close to their letters.
+ * Each speck is painted with the mean of the light pixels around it.
+ */
+export const despeckle = (image: PixelBuffer): void => {
+  const { data, width, height } = image;
+  const scale = Math.min(width, height) / 1000;
+  const maxArea = Math.max(2, Math.round(scale * scale * 2));
+  const margin = Math.max(2, Math.round(scale * 2.5));
+
+  const isInk = (p: number) => data[p * 4 + 3] !== 0 && luminanceAt(data, p * 4) < INK_LUMINANCE;
+
+  // 0 = unvisited, 1 = visited, 2 = part of the component being examined
+  const state = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const component: number[] = [];
+
+  for (let start = 0; start < state.length; start++) {
+    if (state[start] !== 0 || !isInk(start)) continue;
+
+    component.length = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    let tooLarge = false;
+    state[start] = 2;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      component.push(p);
+      if (component.length > maxArea) tooLarge = true;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const q = ny * width + nx;
+          if (state[q] === 0 && isInk(q)) {
+            state[q] = 2;
+            stack.push(q);
+          }
+        }
+      }
+    }
+
+    if (!tooLarge) {
+      let isolated = true;
+      let r = 0, g = 0, b = 0, light = 0;
+      for (let y = Math.max(0, minY - margin); y <= Math.min(height - 1, maxY + margin) && isolated; y++) {
+        for (let x = Math.max(0, minX - margin); x <= Math.min(width - 1, maxX + margin); x++) {
+          const q = y * width + x;
+          if (state[q] === 2) continue;
+          if (isInk(q)) {
+            isolated = false;
+            break;
+          }
+          r += data[q * 4];
+          g += data[q * 4 + 1];
+          b += data[q * 4 + 2];
+          light++;
+        }
+      }
+
+      if (isolated && light > 0) {
+        for (const p of component) {
+          data[p * 4] = r / light;
+          data[p * 4 + 1] = g / light;
+          data[p * 4 + 2] = b / light;
+        }
+      }
+    }
+
+    for (const p of component) state[p] = 1;
+  }
+};
+
+// Scans are rarely off by more than a few degrees; larger angles are more likely real layout.
+const MAX_SKEW_DEGREES = 5;
+const SKEW_SAMPLE_WIDTH = 800;
+
+// Sum of squared row counts of the ink rotated by the angle; peaks when text lines are horizontal.
+const projectionScore = (xs: Float32Array, ys: Float32Array, count: number, degrees: number, rows: number): number => {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const offset = rows / 2;
+  const histogram = new Uint32Array(rows * 2);
+
+  for (let k = 0; k < count; k++) {
+    const row = Math.round(ys[k] * cos - xs[k] * sin + offset);
+    if (row >= 0 && row < histogram.length) histogram[row]++;
+  }
+
+  let score = 0;
+  for (let row = 0; row < histogram.length; row++) score += histogram[row] * histogram[row];
+  return score;
+};
+
+/**
+ * Estimates the page skew in degrees with a projection profile on a downsampled ink mask.
+ * A positive angle means the text lines rise towards the right.
+ */
+export const estimateSkew = (image: PixelBuffer): number => {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.floor(width / SKEW_SAMPLE_WIDTH));
+  const sampleWidth = Math.ceil(width / step);
+  const sampleHeight = Math.ceil(height / step);
+
+  const xs = new Float32Array(sampleWidth * sampleHeight);
+  const ys = new Float32Array(sampleWidth * sampleHeight);
+  let count = 0;
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3] !== 0 && luminanceAt(data, i) < INK_LUMINANCE) {
+        xs[count] = x / step - sampleWidth / 2;
+        ys[count] = y / step - sampleHeight / 2;
+        count++;
+      }
+    }
+  }
+  if (count === 0) return 0;
+
+  // Coarse sweep, then refine around the best coarse angle.
+  const search = (from: number, to: number, increment: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += increment) {
+      const score = projectionScore(xs, ys, count, degrees, sampleHeight + sampleWidth);
+      if (score > bestScore) {
+        bestScore = score;
+        best = degrees;
+      }
+    }
+    return best;
+  };
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.25);
+  return -search(coarse - 0.25, coarse + 0.25, 0.05);
+};
+
+// Mean color of the brightest tenth of a sparse sample, used to fill corners uncovered by rotation.
+const estimatePaperColor = (image: PixelBuffer): RGB => {
+  const { data } = image;
+  const stride = Math.max(1, Math.floor(data.length / 4 / 20000)) * 4;
+  const samples: number[] = [];
+  for (let i = 0; i < data.length; i += stride) {
+    if (data[i + 3] !== 0) samples.push(i);
+  }
+  if (samples.length === 0) return { r: 255, g: 255, b: 255 };
+
+  samples.sort((a, b) => luminanceAt(data, b) - luminanceAt(data, a));
+  const top = samples.slice(0, Math.max(1, Math.floor(samples.length / 10)));
+  const mean = (channel: number) => top.reduce((sum, i) => sum + data[i + channel], 0) / top.length;
+  return { r: mean(0), g: mean(1), b: mean(2) };
+};
+
+// Skews below this are not worth the resampling blur.
+const MIN_DESKEW_DEGREES = 0.1;
+
+/**
+ * Rotates the page about its center to cancel the estimated skew, keeping its size.
+ * Returns the correction applied in degrees (0 when the page was left alone).
+ */
+export const deskew = (image: PixelBuffer): number => {
+  const skew = estimateSkew(image);
+  if (Math.abs(skew) < MIN_DESKEW_DEGREES) return 0;
+
+  const { data, width, height } = image;
+  const source = data.slice();
+  const paper = estimatePaperColor(image);
+  const radians = (skew * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Inverse mapping: the source pixel that lands on (x, y) after undoing the skew.
+      const dx = x + 0.5 - cx;
+      const dy = y + 0.5 - cy;
+      const sx = dx * cos + dy * sin + cx - 0.5;
+      const sy = dy * cos - dx * sin + cy - 0.5;
+      const i = (y * width + x) * 4;
+
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      if (x0 < 0 || y0 < 0 || x0 + 1 >= width || y0 + 1 >= height) {
+        data[i] = paper.r;
+        data[i + 1] = paper.g;
+        data[i + 2] = paper.b;
+        data[i + 3] = 255;
+        continue;
+      }
+
+      const wx = sx - x0;
+      const wy = sy - y0;
+      const a = (y0 * width + x0) * 4;
+      const b = a + 4;
+      const c = a + width * 4;
+      const d = c + 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = source[a + ch] * (1 - wx) + source[b + ch] * wx;
+        const bottom = source[c + ch] * (1 - wx) + source[d + ch] * wx;
+        data[i + ch] = top * (1 - wy) + bottom * wy;
+      }
+    }
+  }
+  return skew;
+};
+
+/**
+ * Runs the enabled cleanup steps in place: flatten, then despeckle, then deskew,
+ * so speck and skew detection see white paper.
+ */
+export const cleanupScan = (image: PixelBuffer, options: ScanCleanupOptions): void => {
+  if (options.flattenBackground) flattenBackground(image);
+  if (options.despeckle) despeckle(image);
+  if (options.deskew) deskew(image);
+};
@@ -0,0 +1,66 @@
+// Named spot inks for print export, with the process (CMYK) build and Lab measurement of each.
+// Values are the commonly published coated-stock equivalents; confirm critical colors with the print shop.
+import { cmykToRgb, rgbToHex } from './colorizeCore';
+
+export type Cmyk = [number, number, number, number]; // percentages, 0-100
+export type Lab = [number, number, number]; // CIE L*a*b*, D50
+
+export interface SpotColor {
+  // Separation name the RIP matches on, so it must be spelled the way the print shop expects
+  name: string;
+  // Process build used by the PDF's alternate color space, and for CMYK export
+  cmyk: Cmyk;
+  // Measured color; custom inks without one are previewed from the CMYK build
+  lab?: Lab;
+}
+
+export const SPOT_COLOR_LIBRARY: SpotColor[] = [
+  { name: 'PANTONE Process Black C', cmyk: [0, 0, 0, 100], lab: [16, 0, 0] },
+  { name: 'PANTONE Cool Gray 11 C', cmyk: [44, 34, 22, 77], lab: [38, 0, -5] },
+  { name: 'PANTONE 7546 C', cmyk: [80, 55, 35, 55], lab: [25, -3, -11] },
+  { name: 'PANTONE Reflex Blue C', cmyk: [100, 73, 0, 2], lab: [24, 21, -64] },
+  { name: 'PANTONE 286 C', cmyk: [100, 66, 0, 2], lab: [27, 15, -63] },
+  { name: 'PANTONE 300 C', cmyk: [99, 50, 0, 0], lab: [41, -4, -56] },
+  { name: 'PANTONE 7711 C', cmyk: [97, 0, 31, 0], lab: [51, -42, -20] },
+  { name: 'PANTONE 2685 C', cmyk: [85, 100, 0, 0], lab: [27, 45, -66] },
+  { name: 'PANTONE 2597 C', cmyk: [82, 99, 0, 0], lab: [32, 54, -63] },
+  { name: 'PANTONE 347 C', cmyk: [100, 0, 86, 3], lab: [54, -69, 32] },
+  { name: 'PANTONE 354 C', cmyk: [80, 0, 90, 0], lab: [63, -63, 44] },
+  { name: 'PANTONE 3425 C', cmyk: [93, 10, 75, 43], lab: [37, -44, 14] },
+  { name: 'PANTONE 116 C', cmyk: [0, 14, 100, 0], lab: [85, 6, 92] },
+  { name: 'PANTONE 021 C', cmyk: [0, 53, 100, 0], lab: [65, 55, 80] },
+  { name: 'PANTONE 032 C', cmyk: [0, 90, 86, 0], lab: [53, 71, 46] },
+  { name: 'PANTONE 185 C', cmyk: [0, 91, 76, 0], lab: [49, 72, 40] },
+  { name: 'PANTONE 1795 C', cmyk: [0, 96, 90, 2], lab: [48, 70, 47] },
+  { name: 'PANTONE 201 C', cmyk: [7, 100, 65, 32], lab: [35, 52, 22] },
+];
+
+export const findSpotColor = (name: string): SpotColor | undefined =>
+  SPOT_COLOR_LIBRARY.find(spot => spot.name.toLowerCase() === name.trim().toLowerCase());
+
+// Lab (D50) -> XYZ -> linear sRGB, with the Bradford adaptation to D65 folded into the matrix
+const labToRgb = ([l, a, b]: Lab) => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = 0.96422 * finv(fx);
+  const y = finv(fy);
+  const z = 0.82521 * finv(fz);
+  const gamma = (v: number) => {
+    const c = Math.min(1, Math.max(0, v));
+    return 255 * (c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+  };
+  return {
+    r: gamma(3.1338561 * x - 1.6168667 * y - 0.4906146 * z),
+    g: gamma(-0.9787684 * x + 1.9161415 * y + 0.033454 * z),
+    b: gamma(0.0719453 * x - 0.2289914 * y + 1.4052427 * z),
+  };
+};
+
+// Screen color for a spot ink, from its Lab value when known, else from its CMYK build
+export const spotPreviewHex = (spot: SpotColor): string => {
+  if (spot.lab) return rgbToHex(labToRgb(spot.lab));
+  const [c, m, y, k] = spot.cmyk.map(value => value / 100);
+  return rgbToHex(cmykToRgb(c, m, y, k));
+};
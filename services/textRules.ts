@@ -0,0 +1,66 @@
+import type { ColorRegion } from './colorizeCore';
+import type { TextBox, TextLine } from '../utils/pdfHelpers';
+
+export type TextRuleKind = 'minFontSize' | 'bold' | 'regex';
+
+/**
+ * Colors text picked out by a property of the pdf.js text layer.
+ * minFontSize matches runs at or above the size (pt), bold matches runs set in a
+ * bold font, regex matches whole lines whose text matches the pattern.
+ */
+export interface TextRule {
+  id: string;
+  kind: TextRuleKind;
+  enabled: boolean;
+  minFontSize: number;
+  pattern: string;
+  color: string;
+  boldness: number;
+}
+
+// Glyph boxes are tight; pad them so anti-aliased edges fall inside the mask.
+const BOX_PADDING = 0.002;
+
+const boxToRegion = (box: TextBox, rule: TextRule, index: number): ColorRegion => ({
+  id: `${rule.id}-${index}`,
+  shape: 'rect',
+  points: [
+    { x: Math.max(0, box.x0 - BOX_PADDING), y: Math.max(0, box.y0 - BOX_PADDING) },
+    { x: Math.min(1, box.x1 + BOX_PADDING), y: Math.min(1, box.y1 + BOX_PADDING) },
+  ],
+  color: rule.color,
+  boldness: rule.boldness,
+});
+
+// Invalid patterns simply match nothing while the user is still typing them.
+const compilePattern = (pattern: string): RegExp | null => {
+  if (!pattern) return null;
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+};
+
+const matchRule = (rule: TextRule, lines: TextLine[]): TextBox[] => {
+  switch (rule.kind) {
+    case 'minFontSize':
+      return lines.flatMap(line => line.runs.filter(run => run.fontSize >= rule.minFontSize).map(run => run.box));
+    case 'bold':
+      return lines.flatMap(line => line.runs.filter(run => run.bold).map(run => run.box));
+    case 'regex': {
+      const re = compilePattern(rule.pattern);
+      return re ? lines.filter(line => re.test(line.text)).map(line => line.box) : [];
+    }
+  }
+};
+
+/**
+ * Resolves text rules against a page's text lines into rectangular color regions.
+ * Rules are applied in order, so a later rule wins where matches overlap.
+ */
+export const resolveTextRules = (lines: TextLine[], rules: TextRule[]): ColorRegion[] => {
+  return rules
+    .filter(rule => rule.enabled)
+    .flatMap(rule => matchRule(rule, lines).map((box, index) => boxToRegion(box, rule, index)));
+};
@@ -0,0 +1,132 @@
+// Named presets: a color theme together with the settings that decide how pages come out.
+// Saved in IndexedDB and shared between machines as a versioned JSON file.
+import { openAppDb, PRESETS_STORE, requestToPromise, transactionDone } from './appDb';
+import { ColorStop, MAX_PALETTE_STOPS, MIN_PALETTE_STOPS } from './colorizeCore';
+
+export interface ThemePreset {
+  name: string;
+  // Ink color, or the darkest stop when a palette is set
+  inkHex: string;
+  // Gradient-map stops; the paper color then comes from the last stop
+  palette?: ColorStop[];
+  paperHex: string;
+  boldness: number;
+  marginPercent: number;
+  resolutionScale: number;
+  colorMode: 'raster' | 'vector';
+}
+
+export const PRESET_FILE_FORMAT = 'chromapdf-presets';
+// Bump when the meaning of a field changes; older files are read, newer ones are refused
+export const PRESET_FILE_VERSION = 1;
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: ThemePreset[];
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const readNumber = (value: unknown, field: string, min: number, max: number): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new Error(`${field} must be a number between ${min} and ${max}`);
+  }
+  return value;
+};
+
+const readHex = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) throw new Error(`${field} must be a hex color such as #1E3A8A`);
+  return value.toLowerCase();
+};
+
+// Checks one preset from a file and returns it with only the known fields.
+const readPreset = (raw: unknown, index: number): ThemePreset => {
+  const label = `Preset ${index + 1}`;
+  if (!raw || typeof raw !== 'object') throw new Error(`${label} is not an object`);
+  const value = raw as Record<string, unknown>;
+
+  if (typeof value.name !== 'string' || value.name.trim() === '') throw new Error(`${label} has no name`);
+  const name = value.name.trim();
+  const field = (key: string) => `"${name}": ${key}`;
+
+  let palette: ColorStop[] | undefined;
+  if (value.palette !== undefined) {
+    if (!Array.isArray(value.palette) || value.palette.length < MIN_PALETTE_STOPS || value.palette.length > MAX_PALETTE_STOPS) {
+      throw new Error(`${field('palette')} must have ${MIN_PALETTE_STOPS} to ${MAX_PALETTE_STOPS} stops`);
+    }
+    palette = value.palette.map((stop: unknown) => {
+      const { color, position } = (stop ?? {}) as Record<string, unknown>;
+      return { color: readHex(color, field('palette color')), position: readNumber(position, field('palette position'), 0, 1) };
+    });
+  }
+
+  if (value.colorMode !== 'raster' && value.colorMode !== 'vector') {
+    throw new Error(`${field('colorMode')} must be "raster" or "vector"`);
+  }
+
+  return {
+    name,
+    inkHex: readHex(value.inkHex, field('inkHex')),
+    palette,
+    paperHex: readHex(value.paperHex, field('paperHex')),
+    boldness: readNumber(value.boldness, field('boldness'), 0, 100),
+    marginPercent: readNumber(value.marginPercent, field('marginPercent'), 0, 50),
+    resolutionScale: readNumber(value.resolutionScale, field('resolutionScale'), 1.5, 8),
+    colorMode: value.colorMode,
+  };
+};
+
+export const serializePresets = (presets: ThemePreset[]): string => {
+  const file: PresetFile = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a preset file. Throws with a message fit for the user when the file
+ * is not a preset file, comes from a newer version, or holds an invalid preset.
+ */
+export const parsePresetFile = (text: string): ThemePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const file = data as Partial<PresetFile> | null;
+  if (!file || file.format !== PRESET_FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error("The file is not a ChromaPDF preset file.");
+  }
+  if (typeof file.version !== 'number' || file.version < 1) {
+    throw new Error("The preset file has no valid version.");
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new Error(`The preset file is version ${file.version}; this app reads up to version ${PRESET_FILE_VERSION}.`);
+  }
+  return file.presets.map(readPreset);
+};
+
+// Alphabetical, as shown in the preset list
+export const listPresets = async (): Promise<ThemePreset[]> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(PRESETS_STORE, 'readonly');
+  const presets = await requestToPromise<ThemePreset[]>(transaction.objectStore(PRESETS_STORE).getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Presets are keyed by name; saving under an existing name replaces it.
+export const savePresets = async (presets: ThemePreset[]): Promise<void> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(PRESETS_STORE, 'readwrite');
+  const store = transaction.objectStore(PRESETS_STORE);
+  presets.forEach(preset => store.put(preset));
+  await transactionDone(transaction);
+};
+
+export const deletePreset = async (name: string): Promise<void> => {
+  const db = await openAppDb();
+  const transaction = db.transaction(PRESETS_STORE, 'readwrite');
+  transaction.objectStore(PRESETS_STORE).delete(name);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,120 @@
+// Multi-page TIFF writer: 8-bit RGB, one Deflate-compressed strip per page.
+// Uses CompressionStream, which browsers and Node 18+ both provide.
+import type { PixelBuffer } from './colorizeCore';
+
+export interface TiffPage {
+  width: number;
+  height: number;
+  // Pixels per inch, stored as the page's resolution so it prints at its original size
+  dpi: number;
+  // Clockwise rotation in degrees (multiple of 90), written as the TIFF orientation
+  rotation?: number;
+  // zlib-compressed RGB rows, from compressTiffPage
+  strip: Uint8Array;
+}
+
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+// Orientation tag values for a page turned clockwise by the key
+const ORIENTATIONS: Record<number, number> = { 0: 1, 90: 6, 180: 3, 270: 8 };
+
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Drops alpha (compositing onto white) and compresses the page for assembleTiff.
+ * Pages are compressed one at a time so only the compressed strips stay in memory.
+ */
+export const compressTiffPage = async (image: PixelBuffer, dpi: number, rotation?: number): Promise<TiffPage> => {
+  const { data, width, height } = image;
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    const alpha = data[i + 3] / 255;
+    rgb[j] = data[i] * alpha + 255 * (1 - alpha);
+    rgb[j + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+    rgb[j + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, dpi, rotation, strip: await deflate(rgb) };
+};
+
+type Tag = [tag: number, type: number, values: number[]];
+
+/**
+ * Writes the pages as one little-endian TIFF, each page an IFD chained to the next.
+ */
+export const assembleTiff = (pages: TiffPage[]): Uint8Array => {
+  // Per page: the IFD, then BitsPerSample and the two resolutions (which don't fit inline), then the strip
+  const ifdSize = (tagCount: number) => 2 + tagCount * 12 + 4;
+  const tagsFor = (page: TiffPage, index: number, stripOffset: number, bitsOffset: number, resolutionOffset: number): Tag[] => [
+    [254, TYPE_LONG, [2]], // NewSubfileType: one page of a multi-page document
+    [256, TYPE_LONG, [page.width]],
+    [257, TYPE_LONG, [page.height]],
+    [258, TYPE_SHORT, [bitsOffset]],
+    [259, TYPE_SHORT, [8]], // Compression: Deflate
+    [262, TYPE_SHORT, [2]], // PhotometricInterpretation: RGB
+    [273, TYPE_LONG, [stripOffset]],
+    [274, TYPE_SHORT, [ORIENTATIONS[((page.rotation ?? 0) % 360 + 360) % 360] ?? 1]],
+    [277, TYPE_SHORT, [3]], // SamplesPerPixel
+    [278, TYPE_LONG, [page.height]], // RowsPerStrip
+    [279, TYPE_LONG, [page.strip.length]],
+    [282, TYPE_RATIONAL, [resolutionOffset]],
+    [283, TYPE_RATIONAL, [resolutionOffset + 8]],
+    [284, TYPE_SHORT, [1]], // PlanarConfiguration: chunky
+    [296, TYPE_SHORT, [2]], // ResolutionUnit: inch
+    [297, TYPE_SHORT, [index, pages.length]], // PageNumber
+  ];
+  const TAG_COUNT = 16;
+  const pageSize = (page: TiffPage) => ifdSize(TAG_COUNT) + 6 + 16 + page.strip.length + (page.strip.length % 2);
+
+  const total = 8 + pages.reduce((sum, page) => sum + pageSize(page), 0);
+  const tiff = new Uint8Array(total);
+  const view = new DataView(tiff.buffer);
+  view.setUint16(0, 0x4949, true); // "II": little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, pages.length > 0 ? 8 : 0, true);
+
+  let offset = 8;
+  pages.forEach((page, index) => {
+    const ifdOffset = offset;
+    const bitsOffset = ifdOffset + ifdSize(TAG_COUNT);
+    const resolutionOffset = bitsOffset + 6;
+    const stripOffset = resolutionOffset + 16;
+    const tags = tagsFor(page, index, stripOffset, bitsOffset, resolutionOffset);
+
+    view.setUint16(ifdOffset, tags.length, true);
+    tags.forEach(([tag, type, values], i) => {
+      const entry = ifdOffset + 2 + i * 12;
+      view.setUint16(entry, tag, true);
+      view.setUint16(entry + 2, type, true);
+      if (tag === 258) {
+        view.setUint32(entry + 4, 3, true);
+        view.setUint32(entry + 8, values[0], true);
+      } else if (type === TYPE_RATIONAL) {
+        view.setUint32(entry + 4, 1, true);
+        view.setUint32(entry + 8, values[0], true);
+      } else if (type === TYPE_SHORT) {
+        view.setUint32(entry + 4, values.length, true);
+        values.forEach((value, v) => view.setUint16(entry + 8 + v * 2, value, true));
+      } else {
+        view.setUint32(entry + 4, 1, true);
+        view.setUint32(entry + 8, values[0], true);
+      }
+    });
+    offset = pageSize(page) + ifdOffset;
+    view.setUint32(ifdOffset + 2 + tags.length * 12, index < pages.length - 1 ? offset : 0, true);
+
+    [8, 8, 8].forEach((bits, v) => view.setUint16(bitsOffset + v * 2, bits, true));
+    // Resolution as a rational with a fixed denominator, enough for fractional DPIs
+    const dpi = Math.round(page.dpi * 100);
+    view.setUint32(resolutionOffset, dpi, true);
+    view.setUint32(resolutionOffset + 4, 100, true);
+    view.setUint32(resolutionOffset + 8, dpi, true);
+    view.setUint32(resolutionOffset + 12, 100, true);
+    tiff.set(page.strip, stripOffset);
+  });
+  return tiff;
+};
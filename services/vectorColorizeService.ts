@@ -0,0 +1,539 @@
+import {
+  PDFDocument,
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFBool,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import {
+  applyColorization,
+  cmykToRgb,
+  COLOR_PHOTO_COVERAGE,
+  ColorizeParams,
+  createLuminanceMapper,
+  getPaperColor,
+  isColorImage,
+  isColorPixel,
+  RGB,
+} from './colorizeCore';
+import { binaryStringToBytes, bytesToBinaryString, ContentOperand, OperatorVisitor, rewriteContentStream } from '../utils/pdfContentStream';
+
+export interface VectorColorizeOptions extends ColorizeParams {
+  marginPercent?: number;
+}
+
+type ColorKind = 'gray' | 'rgb' | 'cmyk' | 'other';
+
+interface RecolorJob {
+  params: ColorizeParams;
+  mapColor: (luminance: number) => RGB;
+}
+
+const COMPONENTS: Record<Exclude<ColorKind, 'other'>, number> = { gray: 1, rgb: 3, cmyk: 4 };
+
+// Keys that describe the encoded bytes and must not be copied onto a re-encoded stream.
+const ENCODING_KEYS = ['Filter', 'DecodeParms', 'Length', 'DL'];
+
+const name = (value: string) => PDFName.of(value);
+
+const luminanceOf = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Device color components (0-1) to 0-255 RGB.
+const componentsToRgb = (kind: Exclude<ColorKind, 'other'>, values: number[]): RGB => {
+  if (kind === 'gray') return { r: values[0] * 255, g: values[0] * 255, b: values[0] * 255 };
+  if (kind === 'rgb') return { r: values[0] * 255, g: values[1] * 255, b: values[2] * 255 };
+  return cmykToRgb(values[0], values[1], values[2], values[3]);
+};
+
+// Device color components (0-1) to the luminance the tone curve expects (0-255).
+const componentsToLuminance = (kind: Exclude<ColorKind, 'other'>, values: number[]): number => {
+  if (kind === 'gray') return values[0] * 255;
+  const { r, g, b } = componentsToRgb(kind, values);
+  return luminanceOf(r, g, b);
+};
+
+const formatComponent = (value: number) => Number((value / 255).toFixed(4)).toString();
+
+const formatRgbOperator = ({ r, g, b }: RGB, operator: 'rg' | 'RG') =>
+  `${formatComponent(r)} ${formatComponent(g)} ${formatComponent(b)} ${operator}`;
+
+const decodeNameOperand = (text: string) =>
+  text.slice(1).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+const resolveColorSpaceKind = (context: PDFContext, value: PDFObject | undefined): ColorKind => {
+  const obj = value instanceof PDFRef ? context.lookup(value) : value;
+
+  if (obj instanceof PDFName) {
+    switch (obj.decodeText()) {
+      case 'DeviceGray': case 'G': case 'CalGray': return 'gray';
+      case 'DeviceRGB': case 'RGB': case 'CalRGB': return 'rgb';
+      case 'DeviceCMYK': case 'CMYK': return 'cmyk';
+      default: return 'other';
+    }
+  }
+
+  if (obj instanceof PDFArray && obj.size() > 0) {
+    const family = obj.lookup(0);
+    if (!(family instanceof PDFName)) return 'other';
+
+    switch (family.decodeText()) {
+      case 'CalGray': return 'gray';
+      case 'CalRGB': return 'rgb';
+      case 'ICCBased': {
+        const profile = obj.lookup(1);
+        const n = profile instanceof PDFRawStream ? profile.dict.lookupMaybe(name('N'), PDFNumber)?.asNumber() : undefined;
+        return n === 1 ? 'gray' : n === 3 ? 'rgb' : n === 4 ? 'cmyk' : 'other';
+      }
+      default: return 'other';
+    }
+  }
+
+  return 'other';
+};
+
+const getFilterNames = (dict: PDFDict): string[] => {
+  const filter = dict.lookup(name('Filter'));
+  if (filter instanceof PDFName) return [filter.decodeText()];
+  if (filter instanceof PDFArray) {
+    return filter.asArray().map((_, idx) => filter.lookupMaybe(idx, PDFName)?.decodeText() ?? '');
+  }
+  return [];
+};
+
+const getDecodeParms = (dict: PDFDict): PDFDict | undefined => {
+  const parms = dict.lookup(name('DecodeParms'));
+  if (parms instanceof PDFDict) return parms;
+  if (parms instanceof PDFArray) {
+    for (let idx = 0; idx < parms.size(); idx++) {
+      const entry = parms.lookup(idx);
+      if (entry instanceof PDFDict) return entry;
+    }
+  }
+  return undefined;
+};
+
+// Copies a stream's dictionary onto freshly encoded contents and swaps it in under the same ref.
+const replaceStream = (
+  context: PDFContext,
+  ref: PDFRef,
+  original: PDFRawStream,
+  next: PDFRawStream,
+  skipKeys: string[] = []
+) => {
+  const skip = new Set([...ENCODING_KEYS, ...skipKeys]);
+  for (const [key, value] of original.dict.entries()) {
+    if (skip.has(key.decodeText())) continue;
+    next.dict.set(key, value);
+  }
+  context.assign(ref, next);
+};
+
+// Reverses PNG row predictors (Predictor >= 10); pdf-lib's decoder leaves them in place.
+const undoPngPredictor = (data: Uint8Array, columns: number, colors: number, bitsPerComponent: number): Uint8Array => {
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((columns * colors * bitsPerComponent) / 8);
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const out = new Uint8Array(rows * rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filterType = data[row * (rowLength + 1)];
+    const src = row * (rowLength + 1) + 1;
+    const dst = row * rowLength;
+    const prev = dst - rowLength;
+
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[src + i];
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel] : 0;
+      const up = row > 0 ? out[prev + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? out[prev + i - bytesPerPixel] : 0;
+      let value = raw;
+
+      switch (filterType) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: {
+          const p = left + up - upLeft;
+          const pa = Math.abs(p - left);
+          const pb = Math.abs(p - up);
+          const pc = Math.abs(p - upLeft);
+          value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+          break;
+        }
+      }
+      out[dst + i] = value & 0xff;
+    }
+  }
+  return out;
+};
+
+const toHexString = (bytes: number[]) =>
+  PDFHexString.of(bytes.map(b => b.toString(16).padStart(2, '0')).join(''));
+
+const readDecodeRange = (dict: PDFDict, components: number, max: number): number[] => {
+  const decode = dict.lookupMaybe(name('Decode'), PDFArray);
+  const range: number[] = [];
+  for (let i = 0; i < components; i++) {
+    const lo = decode?.lookupMaybe(i * 2, PDFNumber)?.asNumber();
+    const hi = decode?.lookupMaybe(i * 2 + 1, PDFNumber)?.asNumber();
+    range.push(lo ?? 0, hi ?? max);
+  }
+  return range;
+};
+
+// A palette of mapped colors for the given base space, one entry per sample value.
+const buildMappedPalette = (entries: number[][], kind: Exclude<ColorKind, 'other'>, job: RecolorJob): number[] => {
+  const palette: number[] = [];
+  for (const values of entries) {
+    const { r, g, b } = job.mapColor(componentsToLuminance(kind, values));
+    palette.push(r, g, b);
+  }
+  return palette;
+};
+
+/**
+ * Grayscale images keep their sample data: the color space is swapped for an
+ * Indexed palette holding the mapped ramp. This works for any filter that is
+ * not DCT, including CCITT and JBIG2 scans that cannot be decoded here.
+ */
+const recolorGrayImageAsIndexed = (image: PDFRawStream, bitsPerComponent: number, job: RecolorJob) => {
+  const hival = (1 << bitsPerComponent) - 1;
+  const [d0, d1] = readDecodeRange(image.dict, 1, 1);
+  const entries: number[][] = [];
+  for (let i = 0; i <= hival; i++) {
+    entries.push([d0 + (i / hival) * (d1 - d0)]);
+  }
+
+  const palette = buildMappedPalette(entries, 'gray', job);
+  image.dict.set(name('ColorSpace'), image.dict.context.obj([name('Indexed'), name('DeviceRGB'), hival, toHexString(palette)]));
+  image.dict.delete(name('Decode'));
+};
+
+const recolorIndexedImage = (context: PDFContext, image: PDFRawStream, colorSpace: PDFArray, job: RecolorJob) => {
+  const kind = resolveColorSpaceKind(context, colorSpace.get(1));
+  const hival = colorSpace.lookupMaybe(2, PDFNumber)?.asNumber();
+  if (kind === 'other' || hival === undefined) return;
+
+  const lookup = colorSpace.lookup(3);
+  let bytes: Uint8Array | undefined;
+  if (lookup instanceof PDFHexString || lookup instanceof PDFString) {
+    bytes = lookup.asBytes();
+  } else if (lookup instanceof PDFRawStream) {
+    bytes = decodePDFRawStream(lookup).decode();
+  }
+  if (!bytes) return;
+
+  const n = COMPONENTS[kind];
+  const entries: number[][] = [];
+  for (let i = 0; i <= hival; i++) {
+    entries.push(Array.from(bytes.subarray(i * n, i * n + n), v => v / 255));
+  }
+
+  if (job.params.preserveColorPhotos) {
+    const colored = entries.filter(values => {
+      const { r, g, b } = componentsToRgb(kind, values);
+      return isColorPixel(r, g, b);
+    }).length;
+    if (colored >= entries.length * COLOR_PHOTO_COVERAGE) return;
+  }
+
+  const palette = buildMappedPalette(entries, kind, job);
+  image.dict.set(name('ColorSpace'), context.obj([name('Indexed'), name('DeviceRGB'), hival, toHexString(palette)]));
+};
+
+// JPEG images are decoded by the browser, recolored like a rendered page and re-encoded.
+const recolorJpegImage = async (context: PDFContext, ref: PDFRef, image: PDFRawStream, job: RecolorJob) => {
+  const bitmap = await createImageBitmap(new Blob([image.contents], { type: 'image/jpeg' }));
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return;
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  if (job.params.preserveColorPhotos && isColorImage(imageData)) return;
+  applyColorization(imageData, job.params);
+  ctx.putImageData(imageData, 0, 0);
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.92 });
+  const next = context.stream(new Uint8Array(await blob.arrayBuffer()), {
+    Filter: 'DCTDecode',
+    ColorSpace: 'DeviceRGB',
+    BitsPerComponent: 8,
+  });
+  replaceStream(context, ref, image, next, ['ColorSpace', 'BitsPerComponent', 'Decode']);
+};
+
+// 8-bit RGB/CMYK samples in a decodable filter chain are recolored pixel by pixel.
+const recolorSampledImage = (
+  context: PDFContext,
+  ref: PDFRef,
+  image: PDFRawStream,
+  kind: 'rgb' | 'cmyk',
+  job: RecolorJob
+) => {
+  const parms = getDecodeParms(image.dict);
+  const predictor = parms?.lookupMaybe(name('Predictor'), PDFNumber)?.asNumber() ?? 1;
+  if (predictor !== 1 && predictor < 10) return; // TIFF predictor is not supported
+
+  const width = image.dict.lookupMaybe(name('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = image.dict.lookupMaybe(name('Height'), PDFNumber)?.asNumber() ?? 0;
+  const n = COMPONENTS[kind];
+
+  let samples = decodePDFRawStream(image).decode();
+  if (predictor >= 10) {
+    samples = undoPngPredictor(samples, width, n, 8);
+  }
+  if (samples.length < width * height * n) return;
+
+  const range = readDecodeRange(image.dict, n, 1);
+  const output = new Uint8Array(width * height * 3);
+  const values = new Array<number>(n);
+  let colored = 0;
+
+  for (let px = 0; px < width * height; px++) {
+    for (let c = 0; c < n; c++) {
+      values[c] = range[c * 2] + (samples[px * n + c] / 255) * (range[c * 2 + 1] - range[c * 2]);
+    }
+    const source = componentsToRgb(kind, values);
+    if (isColorPixel(source.r, source.g, source.b)) colored++;
+
+    const { r, g, b } = job.mapColor(luminanceOf(source.r, source.g, source.b));
+    output[px * 3] = r;
+    output[px * 3 + 1] = g;
+    output[px * 3 + 2] = b;
+  }
+
+  if (job.params.preserveColorPhotos && colored >= width * height * COLOR_PHOTO_COVERAGE) return;
+
+  const next = context.flateStream(output, { ColorSpace: 'DeviceRGB', BitsPerComponent: 8 });
+  replaceStream(context, ref, image, next, ['ColorSpace', 'BitsPerComponent', 'Decode']);
+};
+
+const recolorImage = async (context: PDFContext, ref: PDFRef, image: PDFRawStream, job: RecolorJob) => {
+  const dict = image.dict;
+
+  // Stencil masks are painted with the current fill color, which the content stream already maps.
+  if (dict.lookupMaybe(name('ImageMask'), PDFBool)?.asBoolean()) return;
+
+  const filters = getFilterNames(dict);
+  if (filters.includes('JPXDecode')) return;
+
+  const colorSpace = dict.lookup(name('ColorSpace'));
+  const bitsPerComponent = dict.lookupMaybe(name('BitsPerComponent'), PDFNumber)?.asNumber() ?? 8;
+
+  if (colorSpace instanceof PDFArray && colorSpace.lookupMaybe(0, PDFName)?.decodeText() === 'Indexed') {
+    recolorIndexedImage(context, image, colorSpace, job);
+    return;
+  }
+
+  const kind = resolveColorSpaceKind(context, colorSpace);
+  if (kind === 'other') return;
+
+  if (filters[filters.length - 1] === 'DCTDecode') {
+    if (filters.length === 1 && kind !== 'cmyk') {
+      await recolorJpegImage(context, ref, image, job);
+    }
+    return;
+  }
+
+  if (kind === 'gray' && bitsPerComponent <= 8) {
+    recolorGrayImageAsIndexed(image, bitsPerComponent, job);
+  } else if (kind !== 'gray' && bitsPerComponent === 8 && !filters.some(f => f === 'CCITTFaxDecode' || f === 'JBIG2Decode')) {
+    recolorSampledImage(context, ref, image, kind, job);
+  }
+};
+
+/**
+ * Builds the operator visitor that maps every fill/stroke color set in device
+ * gray, RGB or CMYK (directly or via CalGray/CalRGB/ICCBased resources) to the
+ * tone-mapped target color. Pattern, Separation, DeviceN and Indexed colors are left alone.
+ */
+const createColorRewriter = (context: PDFContext, resources: PDFDict | undefined, job: RecolorJob): OperatorVisitor => {
+  let fill: ColorKind = 'gray';
+  let stroke: ColorKind = 'gray';
+  const saved: [ColorKind, ColorKind][] = [];
+  const colorSpaces = resources?.lookupMaybe(name('ColorSpace'), PDFDict);
+
+  const kindForOperand = (operand: ContentOperand | undefined): ColorKind => {
+    if (!operand || operand.kind !== 'name') return 'other';
+    const csName = decodeNameOperand(operand.text);
+    const direct = resolveColorSpaceKind(context, name(csName));
+    if (direct !== 'other') return direct;
+    return resolveColorSpaceKind(context, colorSpaces?.get(name(csName)));
+  };
+
+  const recolor = (kind: ColorKind, operands: ContentOperand[], operator: 'rg' | 'RG') => {
+    if (kind === 'other' || operands.length !== COMPONENTS[kind]) return undefined;
+    if (operands.some(o => o.kind !== 'number')) return undefined;
+    const values = operands.map(o => Number(o.text));
+    return formatRgbOperator(job.mapColor(componentsToLuminance(kind, values)), operator);
+  };
+
+  // Selecting a color space resets the color to its initial value, which is black for all mapped spaces.
+  const initialColor = (operator: 'rg' | 'RG') => formatRgbOperator(job.mapColor(0), operator);
+
+  return (operator, operands) => {
+    switch (operator) {
+      case 'q':
+        saved.push([fill, stroke]);
+        return undefined;
+      case 'Q':
+        [fill, stroke] = saved.pop() ?? [fill, stroke];
+        return undefined;
+      case 'g': fill = 'gray'; return recolor(fill, operands, 'rg');
+      case 'rg': fill = 'rgb'; return recolor(fill, operands, 'rg');
+      case 'k': fill = 'cmyk'; return recolor(fill, operands, 'rg');
+      case 'G': stroke = 'gray'; return recolor(stroke, operands, 'RG');
+      case 'RG': stroke = 'rgb'; return recolor(stroke, operands, 'RG');
+      case 'K': stroke = 'cmyk'; return recolor(stroke, operands, 'RG');
+      case 'cs':
+        fill = kindForOperand(operands[0]);
+        return fill === 'other' ? undefined : `${operands.map(o => o.text).join(' ')} cs ${initialColor('rg')}`;
+      case 'CS':
+        stroke = kindForOperand(operands[0]);
+        return stroke === 'other' ? undefined : `${operands.map(o => o.text).join(' ')} CS ${initialColor('RG')}`;
+      case 'sc': case 'scn': return recolor(fill, operands, 'rg');
+      case 'SC': case 'SCN': return recolor(stroke, operands, 'RG');
+      default:
+        return undefined;
+    }
+  };
+};
+
+const rewriteStreamBytes = (context: PDFContext, bytes: Uint8Array, resources: PDFDict | undefined, job: RecolorJob, prefix = '') =>
+  binaryStringToBytes(prefix + rewriteContentStream(bytesToBinaryString(bytes), createColorRewriter(context, resources, job)));
+
+/**
+ * Recurses through XObjects and tiling patterns reachable from a resource dictionary.
+ * Soft mask groups are deliberately not visited: their luminance defines transparency.
+ */
+const processResources = async (
+  context: PDFContext,
+  resources: PDFDict | undefined,
+  job: RecolorJob,
+  visited: Set<PDFRef>
+): Promise<void> => {
+  if (!resources) return;
+
+  const xObjects = resources.lookupMaybe(name('XObject'), PDFDict);
+  for (const [, ref] of xObjects?.entries() ?? []) {
+    if (!(ref instanceof PDFRef) || visited.has(ref)) continue;
+    visited.add(ref);
+
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    const subtype = stream.dict.lookupMaybe(name('Subtype'), PDFName)?.decodeText();
+    try {
+      if (subtype === 'Image') {
+        await recolorImage(context, ref, stream, job);
+      } else if (subtype === 'Form') {
+        const formResources = stream.dict.lookupMaybe(name('Resources'), PDFDict) ?? resources;
+        const rewritten = rewriteStreamBytes(context, decodePDFRawStream(stream).decode(), formResources, job);
+        replaceStream(context, ref, stream, context.flateStream(rewritten));
+        await processResources(context, formResources, job, visited);
+      }
+    } catch (e) {
+      console.warn(`Vector colorization skipped XObject ${ref.toString()}:`, e);
+    }
+  }
+
+  const patterns = resources.lookupMaybe(name('Pattern'), PDFDict);
+  for (const [, ref] of patterns?.entries() ?? []) {
+    if (!(ref instanceof PDFRef) || visited.has(ref)) continue;
+    visited.add(ref);
+
+    const stream = context.lookup(ref);
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    // Only colored tiling patterns carry their own colors; uncolored ones take them from scn.
+    const patternType = stream.dict.lookupMaybe(name('PatternType'), PDFNumber)?.asNumber();
+    const paintType = stream.dict.lookupMaybe(name('PaintType'), PDFNumber)?.asNumber();
+    if (patternType !== 1 || paintType !== 1) continue;
+
+    try {
+      const patternResources = stream.dict.lookupMaybe(name('Resources'), PDFDict) ?? resources;
+      const rewritten = rewriteStreamBytes(context, decodePDFRawStream(stream).decode(), patternResources, job);
+      replaceStream(context, ref, stream, context.flateStream(rewritten));
+      await processResources(context, patternResources, job, visited);
+    } catch (e) {
+      console.warn(`Vector colorization skipped pattern ${ref.toString()}:`, e);
+    }
+  }
+};
+
+/**
+ * Colorizes a PDF without rasterizing it.
+ * Rewrites the color operators (g/G, rg/RG, k/K, cs/CS, sc/scn/SC/SCN) in every
+ * page, form XObject and colored tiling pattern so black maps to the target color
+ * through the same tone curve as colorizeImage. Embedded raster images are recolored
+ * with the luminance curve (color photos are kept when params.preserveColorPhotos is set),
+ * and a non-white paper color is painted behind each page.
+ * Text, links and vector paths stay intact.
+ * Shadings, annotations and Type3 glyph procedures keep their original colors.
+ */
+export const colorizePdfVector = async (source: ArrayBuffer | Uint8Array, options: VectorColorizeOptions): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.load(source);
+  const context = pdfDoc.context;
+  // Regions, scan cleanup and local thresholds work on the rendered page and have no meaning in PDF user space.
+  const { marginPercent, regions: _regions, cleanup: _cleanup, adaptive: _adaptive, ...params } = options;
+  const job: RecolorJob = { params, mapColor: createLuminanceMapper(params) };
+  const visited = new Set<PDFRef>();
+
+  // Untouched pages start with black as both fill and stroke color.
+  const defaultColors = `${formatRgbOperator(job.mapColor(0), 'rg')} ${formatRgbOperator(job.mapColor(0), 'RG')}\n`;
+  const paper = getPaperColor(params);
+  const paperFill = paper.r === 255 && paper.g === 255 && paper.b === 255 ? null : formatRgbOperator(paper, 'rg');
+
+  for (const page of pdfDoc.getPages()) {
+    const node = page.node;
+    const resources = (node.Resources() ?? node.getInheritableAttribute(name('Resources'))) as PDFDict | undefined;
+    const contents = node.Contents();
+    const streams = contents instanceof PDFArray
+      ? contents.asArray().map((_, idx) => contents.lookup(idx))
+      : [contents];
+
+    const chunks: Uint8Array[] = [];
+    for (const stream of streams) {
+      if (stream instanceof PDFRawStream) {
+        chunks.push(decodePDFRawStream(stream).decode());
+      }
+    }
+
+    if (marginPercent) {
+      const margin = page.getWidth() * (marginPercent / 100);
+      const media = page.getMediaBox();
+      page.setMediaBox(media.x - margin, media.y - margin, media.width + margin * 2, media.height + margin * 2);
+      if (node.CropBox()) {
+        const crop = page.getCropBox();
+        page.setCropBox(crop.x - margin, crop.y - margin, crop.width + margin * 2, crop.height + margin * 2);
+      }
+    }
+
+    // Unpainted areas show the viewer's white, so a non-white paper is painted underneath everything.
+    let prefix = defaultColors;
+    if (paperFill) {
+      const { x, y, width, height } = page.getMediaBox();
+      prefix = `q ${paperFill} ${x} ${y} ${width} ${height} re f Q\n${prefix}`;
+    }
+
+    // Content arrays are concatenated before tokenizing since operators may span stream boundaries.
+    const joined = chunks.map(bytesToBinaryString).join('\n');
+    const rewritten = rewriteStreamBytes(context, binaryStringToBytes(joined), resources, job, prefix);
+    node.set(name('Contents'), context.register(context.flateStream(rewritten)));
+
+    await processResources(context, resources, job, visited);
+  }
+
+  return pdfDoc.save();
+};
@@ -0,0 +1,92 @@
+import type { ColorizeParams } from './colorizeCore';
+import type { ColorizeJobRequest, ColorizeJobResponse, ColorizeTask } from './colorize.worker';
+
+interface PendingJob {
+  id: number;
+  bitmap: ImageBitmap;
+  params: ColorizeParams;
+  task: ColorizeTask;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolSlot {
+  worker: Worker;
+  job: PendingJob | null;
+}
+
+// Leave one core for the UI thread and pdf.js; cap so memory stays sane at high render scales.
+const POOL_SIZE = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+let slots: PoolSlot[] | null = null;
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+
+export const isWorkerPoolSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+
+export const getWorkerPoolSize = (): number => (isWorkerPoolSupported() ? POOL_SIZE : 1);
+
+const spawnWorker = (): Worker =>
+  new Worker(new URL('./colorize.worker.ts', import.meta.url), { type: 'module' });
+
+const dispatch = (slot: PoolSlot) => {
+  const job = queue.shift();
+  if (!job) return;
+
+  slot.job = job;
+  const message: ColorizeJobRequest = { id: job.id, bitmap: job.bitmap, params: job.params, task: job.task };
+  slot.worker.postMessage(message, [job.bitmap]);
+};
+
+const attachHandlers = (slot: PoolSlot) => {
+  slot.worker.onmessage = (event: MessageEvent<ColorizeJobResponse>) => {
+    const job = slot.job;
+    slot.job = null;
+
+    if (job && job.id === event.data.id) {
+      if (event.data.blob) {
+        job.resolve(event.data.blob);
+      } else {
+        job.reject(new Error(event.data.error || "Worker returned no image."));
+      }
+    }
+    dispatch(slot);
+  };
+
+  // A crashed worker cannot be trusted with further jobs; replace it.
+  slot.worker.onerror = (event) => {
+    event.preventDefault();
+    const job = slot.job;
+    slot.job = null;
+    slot.worker.terminate();
+    slot.worker = spawnWorker();
+    attachHandlers(slot);
+    job?.reject(new Error(event.message || "Colorize worker crashed."));
+    dispatch(slot);
+  };
+};
+
+const getSlots = (): PoolSlot[] => {
+  if (!slots) {
+    slots = Array.from({ length: POOL_SIZE }, () => {
+      const slot: PoolSlot = { worker: spawnWorker(), job: null };
+      attachHandlers(slot);
+      return slot;
+    });
+  }
+  return slots;
+};
+
+/**
+ * Queues a bitmap for colorization on the worker pool.
+ * The bitmap is transferred, so it must not be used by the caller afterwards.
+ * Resolves with the recolored (or, for the 'cleanup' task, only cleaned) page encoded as a PNG Blob.
+ */
+export const runColorizeJob = (bitmap: ImageBitmap, params: ColorizeParams, task: ColorizeTask = 'colorize'): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    queue.push({ id: nextJobId++, bitmap, params, task, resolve, reject });
+    const idle = getSlots().find(slot => slot.job === null);
+    if (idle) dispatch(idle);
+  });
+};
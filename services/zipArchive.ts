@@ -0,0 +1,92 @@
+// Minimal ZIP writer for exporting page images. Entries are stored uncompressed:
+// PNG, WebP and AVIF are compressed already, so deflating them again gains next to nothing.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields, in local time as ZIP tools expect
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// General purpose flag bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+/**
+ * Builds a ZIP file from the entries, in order. Entry names are written as UTF-8.
+ * Sizes are limited to the classic (non-ZIP64) format: 4 GB in total and 65535 entries.
+ */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const records = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data), offset: 0 }));
+
+  const localSize = records.reduce((sum, r) => sum + 30 + r.nameBytes.length + r.data.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.nameBytes.length, 0);
+  const zip = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(zip.buffer);
+  let offset = 0;
+
+  for (const record of records) {
+    record.offset = offset;
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, record.crc, true);
+    view.setUint32(offset + 18, record.data.length, true);
+    view.setUint32(offset + 22, record.data.length, true);
+    view.setUint16(offset + 26, record.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    zip.set(record.nameBytes, offset + 30);
+    zip.set(record.data, offset + 30 + record.nameBytes.length);
+    offset += 30 + record.nameBytes.length + record.data.length;
+  }
+
+  const centralStart = offset;
+  for (const record of records) {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, record.crc, true);
+    view.setUint32(offset + 20, record.data.length, true);
+    view.setUint32(offset + 24, record.data.length, true);
+    view.setUint16(offset + 28, record.nameBytes.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, record.offset, true);
+    zip.set(record.nameBytes, offset + 46);
+    offset += 46 + record.nameBytes.length;
+  }
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return zip;
+};
@@ -0,0 +1,185 @@
+// Minimal PDF content stream tokenizer used to rewrite operators in place.
+// It only understands enough syntax to find operator boundaries; everything it
+// does not rewrite is copied through byte for byte.
+
+export type OperandKind = 'number' | 'name' | 'string' | 'array' | 'dict' | 'keyword';
+
+export interface ContentOperand {
+  kind: OperandKind;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Called for every operator in the stream.
+ * Return a string to replace the operator together with its operands, or undefined to keep it.
+ */
+export type OperatorVisitor = (operator: string, operands: ContentOperand[]) => string | undefined;
+
+const isWhitespace = (c: number) =>
+  c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09 || c === 0x0c || c === 0x00;
+
+const isDelimiter = (c: number) =>
+  c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b || c === 0x5d ||
+  c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25;
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+// Byte-exact conversions; TextDecoder('latin1') would remap 0x80-0x9F.
+export const bytesToBinaryString = (bytes: Uint8Array): string => {
+  let result = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+  }
+  return result;
+};
+
+export const binaryStringToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+const skipComment = (src: string, i: number): number => {
+  while (i < src.length && src.charCodeAt(i) !== 0x0a && src.charCodeAt(i) !== 0x0d) i++;
+  return i;
+};
+
+// i points at '('; returns the index just past the matching ')'.
+const skipLiteralString = (src: string, i: number): number => {
+  let depth = 0;
+  for (; i < src.length; i++) {
+    const c = src.charCodeAt(i);
+    if (c === 0x5c) { i++; continue; } // backslash escape
+    if (c === 0x28) depth++;
+    else if (c === 0x29 && --depth === 0) return i + 1;
+  }
+  return src.length;
+};
+
+// i points at '<' of a hex string; returns the index just past '>'.
+const skipHexString = (src: string, i: number): number => {
+  const end = src.indexOf('>', i);
+  return end === -1 ? src.length : end + 1;
+};
+
+// i points at '[' or '<<'; returns the index just past the matching close.
+const skipComposite = (src: string, i: number): number => {
+  let depth = 0;
+  while (i < src.length) {
+    const c = src.charCodeAt(i);
+    if (c === 0x28) { i = skipLiteralString(src, i); continue; }
+    if (c === 0x25) { i = skipComment(src, i); continue; }
+    if (c === 0x3c) {
+      if (src.charCodeAt(i + 1) === 0x3c) { depth++; i += 2; continue; }
+      i = skipHexString(src, i);
+      continue;
+    }
+    if (c === 0x3e && src.charCodeAt(i + 1) === 0x3e) {
+      i += 2;
+      if (--depth === 0) return i;
+      continue;
+    }
+    if (c === 0x5b) depth++;
+    else if (c === 0x5d && --depth === 0) return i + 1;
+    i++;
+  }
+  return src.length;
+};
+
+// Inline image data is binary; its end is the first "EI" surrounded by whitespace.
+const skipInlineImageData = (src: string, i: number): number => {
+  let j = i;
+  while ((j = src.indexOf('EI', j)) !== -1) {
+    const before = src.charCodeAt(j - 1);
+    const after = j + 2 < src.length ? src.charCodeAt(j + 2) : 0x20;
+    if (isWhitespace(before) && (isWhitespace(after) || isDelimiter(after))) return j + 2;
+    j += 2;
+  }
+  return src.length;
+};
+
+/**
+ * Walks a decoded content stream and lets the visitor replace operators.
+ * Inline images (BI ... ID ... EI) are passed through untouched.
+ */
+export const rewriteContentStream = (src: string, visit: OperatorVisitor): string => {
+  const out: string[] = [];
+  let cursor = 0;
+  let operands: ContentOperand[] = [];
+  let i = 0;
+
+  const pushOperand = (kind: OperandKind, start: number, end: number) => {
+    operands.push({ kind, text: src.slice(start, end), start, end });
+  };
+
+  while (i < src.length) {
+    const c = src.charCodeAt(i);
+
+    if (isWhitespace(c)) { i++; continue; }
+    if (c === 0x25) { i = skipComment(src, i); continue; }
+
+    const start = i;
+    if (c === 0x28) {
+      i = skipLiteralString(src, i);
+      pushOperand('string', start, i);
+      continue;
+    }
+    if (c === 0x3c) {
+      const isDict = src.charCodeAt(i + 1) === 0x3c;
+      i = isDict ? skipComposite(src, i) : skipHexString(src, i);
+      pushOperand(isDict ? 'dict' : 'string', start, i);
+      continue;
+    }
+    if (c === 0x5b) {
+      i = skipComposite(src, i);
+      pushOperand('array', start, i);
+      continue;
+    }
+    if (c === 0x2f) {
+      i++;
+      while (i < src.length && !isWhitespace(src.charCodeAt(i)) && !isDelimiter(src.charCodeAt(i))) i++;
+      pushOperand('name', start, i);
+      continue;
+    }
+    if (isDelimiter(c)) {
+      // Stray closing delimiter; nothing sensible to do but step over it.
+      i++;
+      continue;
+    }
+
+    while (i < src.length && !isWhitespace(src.charCodeAt(i)) && !isDelimiter(src.charCodeAt(i))) i++;
+    const word = src.slice(start, i);
+
+    if (NUMBER_PATTERN.test(word)) {
+      pushOperand('number', start, i);
+      continue;
+    }
+    if (word === 'true' || word === 'false' || word === 'null') {
+      pushOperand('keyword', start, i);
+      continue;
+    }
+
+    if (word === 'ID') {
+      // Single whitespace byte separates ID from the image data.
+      i = skipInlineImageData(src, i + 1);
+      operands = [];
+      continue;
+    }
+
+    const replacement = visit(word, operands);
+    if (replacement !== undefined) {
+      const spanStart = operands.length > 0 ? operands[0].start : start;
+      out.push(src.slice(cursor, spanStart), replacement);
+      cursor = i;
+    }
+    operands = [];
+  }
+
+  out.push(src.slice(cursor));
+  return out.join('');
+};
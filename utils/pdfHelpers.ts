@@ -9,6 +9,32 @@ export interface RenderedPage {
   dataUrl: string; // Base64 image of the page
   width: number;
   height: number;
+  pageWidth: number; // Physical size in points (unscaled viewport)
+  pageHeight: number;
+}
+
+export interface RenderedBitmap {
+  pageNumber: number;
+  bitmap: ImageBitmap;
+  width: number;
+  height: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export interface RenderedBlob {
+  pageNumber: number;
+  blob: Blob; // PNG
+  width: number;
+  height: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+interface RenderedCanvas {
+  canvas: HTMLCanvasElement;
+  pageWidth: number;
+  pageHeight: number;
 }
 
 export const loadPdfDocument = async (file: File): Promise<pdfjsLib.PDFDocumentProxy> => {
@@ -17,14 +43,22 @@ export const loadPdfDocument = async (file: File): Promise<pdfjsLib.PDFDocumentP
   return loadingTask.promise;
 };
 
-export const renderPageToImage = async (
+// pdf.js transfers the buffer to its worker, so callers that keep the bytes get a copy loaded.
+export const loadPdfDocumentFromData = async (data: Uint8Array): Promise<pdfjsLib.PDFDocumentProxy> => {
+  const loadingTask = pdfjsLib.getDocument({ data: data.slice() });
+  return loadingTask.promise;
+};
+
+const renderPageToCanvas = async (
   pdfDoc: pdfjsLib.PDFDocumentProxy,
   pageNumber: number,
-  scale: number = 3.0 // Increased from 1.5 to 3.0 for better resolution
-): Promise<RenderedPage> => {
+  scale: number
+): Promise<RenderedCanvas> => {
   const page = await pdfDoc.getPage(pageNumber);
   
   const viewport = page.getViewport({ scale });
+  // Rotation is already applied, so this is the size the page is displayed at
+  const { width: pageWidth, height: pageHeight } = page.getViewport({ scale: 1 });
   const canvas = document.createElement('canvas');
   const context = canvas.getContext('2d');
 
@@ -41,11 +75,191 @@ export const renderPageToImage = async (
   };
 
   await page.render(renderContext).promise;
+  return { canvas, pageWidth, pageHeight };
+};
+
+export const renderPageToImage = async (
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number = 3.0 // Increased from 1.5 to 3.0 for better resolution
+): Promise<RenderedPage> => {
+  const { canvas, pageWidth, pageHeight } = await renderPageToCanvas(pdfDoc, pageNumber, scale);
 
   return {
     pageNumber,
     dataUrl: canvas.toDataURL('image/png'),
-    width: viewport.width,
-    height: viewport.height,
+    width: canvas.width,
+    height: canvas.height,
+    pageWidth,
+    pageHeight,
   };
-};
\ No newline at end of file
+};
+
+/**
+ * Renders a page to a PNG Blob, for pages that are kept (colorized results, saved projects)
+ * where a data URL would cost a third more memory.
+ */
+export const renderPageToBlob = async (
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number = 3.0
+): Promise<RenderedBlob> => {
+  const { canvas, pageWidth, pageHeight } = await renderPageToCanvas(pdfDoc, pageNumber, scale);
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Canvas could not be encoded as PNG'))), 'image/png');
+  });
+
+  return {
+    pageNumber,
+    blob,
+    width: canvas.width,
+    height: canvas.height,
+    pageWidth,
+    pageHeight,
+  };
+};
+
+/**
+ * Renders a page straight to an ImageBitmap, skipping the PNG round trip.
+ * Used by batch processing, where the bitmap is transferred to a colorize worker.
+ */
+export const renderPageToBitmap = async (
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number = 3.0
+): Promise<RenderedBitmap> => {
+  const { canvas, pageWidth, pageHeight } = await renderPageToCanvas(pdfDoc, pageNumber, scale);
+  const bitmap = await createImageBitmap(canvas);
+
+  // Release the backing store early; large canvases add up quickly across parallel renders.
+  canvas.width = 0;
+  canvas.height = 0;
+
+  return {
+    pageNumber,
+    bitmap,
+    width: bitmap.width,
+    height: bitmap.height,
+    pageWidth,
+    pageHeight,
+  };
+};
+
+/**
+ * Renders a page and returns its pixels, for analysis that needs no image (e.g. blank page detection).
+ */
+export const renderPageToImageData = async (
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number,
+  scale: number
+): Promise<ImageData> => {
+  const { canvas } = await renderPageToCanvas(pdfDoc, pageNumber, scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas context could not be created');
+  }
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  canvas.width = 0;
+  canvas.height = 0;
+  return imageData;
+};
+
+// Box in normalized page coordinates (0-1, top-left origin), same space as color regions.
+export interface TextBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface TextRun {
+  text: string;
+  fontSize: number; // In points (PDF user space units)
+  fontName: string;
+  bold: boolean;
+  box: TextBox;
+}
+
+export interface TextLine {
+  text: string;
+  runs: TextRun[];
+  box: TextBox;
+}
+
+const BOLD_FONT_PATTERN = /bold|black|heavy|semibold|demi/i;
+
+const unionBoxes = (boxes: TextBox[]): TextBox => ({
+  x0: Math.min(...boxes.map(b => b.x0)),
+  y0: Math.min(...boxes.map(b => b.y0)),
+  x1: Math.max(...boxes.map(b => b.x1)),
+  y1: Math.max(...boxes.map(b => b.y1)),
+});
+
+/**
+ * Reads the pdf.js text layer of a page and groups it into lines of runs with glyph boxes.
+ * Real font names (for bold detection) are only known once the page's fonts are loaded,
+ * so the operator list is fetched first; pdf.js caches it for rendering anyway.
+ */
+export const getPageTextLines = async (
+  pdfDoc: pdfjsLib.PDFDocumentProxy,
+  pageNumber: number
+): Promise<TextLine[]> => {
+  const page = await pdfDoc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  await page.getOperatorList();
+  const content = await page.getTextContent();
+
+  const lines: TextLine[] = [];
+  let runs: TextRun[] = [];
+  let lineText = ''; // Includes whitespace-only items, which get no run of their own
+  let baseline: number | null = null;
+
+  const flushLine = () => {
+    if (runs.length > 0) {
+      lines.push({ text: lineText, runs, box: unionBoxes(runs.map(r => r.box)) });
+    }
+    runs = [];
+    lineText = '';
+    baseline = null;
+  };
+
+  for (const item of content.items) {
+    if (!('str' in item)) continue;
+
+    const [, , c, d, e, f] = item.transform as number[];
+    const fontSize = Math.hypot(c, d);
+
+    // A jump in baseline without an explicit EOL still starts a new line
+    if (baseline !== null && Math.abs(f - baseline) > fontSize * 0.5) flushLine();
+    lineText += item.str;
+
+    if (item.str.trim().length > 0) {
+      const style = content.styles[item.fontName];
+      const ascent = style?.ascent || 0.8;
+      const descent = style?.descent || -0.2;
+      const font = page.commonObjs.has(item.fontName) ? page.commonObjs.get(item.fontName) : null;
+      const fontName: string = font?.name || style?.fontFamily || item.fontName;
+
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([e, f + descent * fontSize, e + item.width, f + ascent * fontSize]);
+      runs.push({
+        text: item.str,
+        fontSize,
+        fontName,
+        bold: BOLD_FONT_PATTERN.test(fontName) || Boolean(font?.bold),
+        box: {
+          x0: Math.min(x1, x2) / viewport.width,
+          y0: Math.min(y1, y2) / viewport.height,
+          x1: Math.max(x1, x2) / viewport.width,
+          y1: Math.max(y1, y2) / viewport.height,
+        },
+      });
+      baseline = f;
+    }
+
+    if (item.hasEOL) flushLine();
+  }
+  flushLine();
+
+  return lines;
+};
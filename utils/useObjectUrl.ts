@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Object URL for a Blob, revoked when the Blob changes or the component unmounts.
+ * Lets Blobs be shown in <img> without keeping a data URL copy around.
+ */
+export const useObjectUrl = (blob: Blob | null | undefined): string | undefined => {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(undefined);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};